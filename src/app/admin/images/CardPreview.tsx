@@ -0,0 +1,79 @@
+// src/app/admin/images/CardPreview.tsx
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import { Calendar as CalendarIcon, MapPin as MapPinIcon, PenTool as ArchitectIcon, X as CloseIcon } from 'lucide-react';
+import type { AdminImage } from '@/app/lib/adminImages';
+
+interface CardPreviewProps {
+  image: AdminImage;
+  imageUrl: string | null;
+  onClose: () => void;
+}
+
+// Mirrors the card and detail sheet markup in /swipe so admins see what swipers will see
+export const CardPreview = ({ image, imageUrl, onClose }: CardPreviewProps) => {
+  const closeButtonRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    const previouslyFocused = document.activeElement as HTMLElement | null;
+    closeButtonRef.current?.focus();
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      previouslyFocused?.focus();
+    };
+  }, [onClose]);
+
+  const metadata = [
+    { label: 'Architect', value: image.architect, icon: <ArchitectIcon size={16} /> },
+    { label: 'Year', value: image.year_built?.toString() ?? null, icon: <CalendarIcon size={16} /> },
+    { label: 'Location', value: image.location, icon: <MapPinIcon size={16} /> },
+  ].filter(item => item.value);
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 overflow-y-auto">
+      <div aria-hidden="true" className="absolute inset-0 bg-slate-900/80" onClick={onClose} />
+      <div role="dialog" aria-modal="true" aria-labelledby="card-preview-title" className="relative flex flex-col lg:flex-row items-center lg:items-start gap-6">
+        <button ref={closeButtonRef} type="button" onClick={onClose} aria-label="Close preview" className="absolute -top-2 -right-2 z-10 p-2 rounded-full bg-white text-slate-600 shadow hover:bg-slate-100">
+          <CloseIcon aria-hidden="true" size={18} />
+        </button>
+
+        <div className="flex flex-col items-center">
+          <p id="card-preview-title" className="text-xs uppercase tracking-wide text-slate-300 mb-2">Swipe card</p>
+          <div className="relative w-[90vw] h-[70vh] max-w-[380px] max-h-[570px]">
+            <div className="absolute w-full h-full rounded-xl shadow-lg overflow-hidden bg-white border border-gray-200">
+              <div className="relative w-full h-full flex items-center justify-center">
+                {imageUrl
+                  ? <img src={imageUrl} alt={image.description || 'Architectural image'} className="block w-full h-auto max-h-full" />
+                  : <p className="text-sm text-gray-400">Image unavailable</p>}
+              </div>
+            </div>
+          </div>
+          {image.is_retired && <p className="mt-3 px-3 py-1 rounded-full bg-amber-100 text-amber-800 text-xs font-medium">Retired: this card is not in anyone&apos;s deck</p>}
+        </div>
+
+        <div className="w-[90vw] max-w-[380px] bg-white rounded-2xl shadow-xl p-6">
+          <p className="text-xs uppercase tracking-wide text-slate-400 mb-2">Detail sheet</p>
+          <h2 className="text-xl font-bold text-gray-800 mb-3">{image.styles?.name || 'Unknown style'}</h2>
+          {metadata.length > 0 && (
+            <ul className="space-y-2 mb-4">
+              {metadata.map(item => (
+                <li key={item.label} className="flex items-center text-sm text-gray-700">
+                  <span className="mr-2 text-pink-500">{item.icon}</span>
+                  <span className="text-gray-500 mr-1">{item.label}:</span> {item.value}
+                </li>
+              ))}
+            </ul>
+          )}
+          <p className={`text-sm ${image.description ? 'text-gray-700' : 'text-gray-400 italic'}`}>
+            {image.description || 'No description available for this building yet.'}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,370 @@
+// src/app/admin/images/page.tsx
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useAuth } from '@/app/context/AuthContext';
+import {
+  AdminImage,
+  fetchAdminImages,
+  fetchStyleOptions,
+  ImageStatusFilter,
+  MAX_IMAGE_UPLOAD_BYTES,
+  setImageRetired,
+  StyleOption,
+  updateImageDetails,
+  uploadLibraryImage,
+  validateImageUpload,
+} from '@/app/lib/adminImages';
+import { getHouseImageUrl } from '@/app/lib/houseImages';
+import { CardPreview } from './CardPreview';
+import {
+  Archive as ArchiveIcon,
+  ArchiveRestore as ArchiveRestoreIcon,
+  Edit3 as EditIcon,
+  Eye as EyeIcon,
+  ImagePlus as ImagePlusIcon,
+  Search as SearchIcon,
+  Upload as UploadIcon,
+} from 'lucide-react';
+
+// --- Types ---
+interface UploadItem {
+  key: string;
+  file: File;
+  status: 'queued' | 'uploading' | 'done' | 'failed';
+  message: string | null;
+}
+
+// Form fields are kept as strings while editing and converted on save
+interface ImageDraft {
+  description: string;
+  style_id: string;
+  architect: string;
+  year_built: string;
+  location: string;
+}
+
+const PAGE_SIZE = 24;
+const THUMBNAIL_WIDTH = 400;
+const SEARCH_DEBOUNCE_MS = 300;
+
+const toDraft = (image: AdminImage): ImageDraft => ({
+  description: image.description || '',
+  style_id: image.style_id?.toString() || '',
+  architect: image.architect || '',
+  year_built: image.year_built?.toString() || '',
+  location: image.location || '',
+});
+
+const inputClasses = "w-full px-3 py-2 border border-slate-300 rounded-md bg-white text-sm text-slate-700 focus:ring-pink-500 focus:border-pink-500";
+
+export default function AdminImagesPage() {
+  const { supabase } = useAuth();
+  const [styles, setStyles] = useState<StyleOption[]>([]);
+  const [images, setImages] = useState<AdminImage[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [styleFilter, setStyleFilter] = useState<number | null>(null);
+  const [statusFilter, setStatusFilter] = useState<ImageStatusFilter>('active');
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [uploadStyleId, setUploadStyleId] = useState('');
+  const [uploadQueue, setUploadQueue] = useState<UploadItem[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [draft, setDraft] = useState<ImageDraft | null>(null);
+  const [busyImageId, setBusyImageId] = useState<number | null>(null);
+  const [previewImage, setPreviewImage] = useState<AdminImage | null>(null);
+  const requestIdRef = useRef(0);
+
+  useEffect(() => {
+    if (!supabase) return;
+    fetchStyleOptions(supabase)
+      .then(setStyles)
+      .catch(err => setError(`Failed to load styles: ${(err as Error).message || 'Unknown error'}`));
+  }, [supabase]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchInput), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  // Any filter change goes back to the first page
+  useEffect(() => {
+    setPage(0);
+  }, [styleFilter, statusFilter, search]);
+
+  const loadImages = useCallback(async () => {
+    if (!supabase) return;
+    const requestId = ++requestIdRef.current;
+    setLoading(true);
+    try {
+      const result = await fetchAdminImages(supabase, { styleId: styleFilter, status: statusFilter, search, offset: page * PAGE_SIZE, limit: PAGE_SIZE });
+      if (requestId !== requestIdRef.current) return;
+      setImages(result.images);
+      setTotal(result.total);
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return;
+      setError(`Failed to load images: ${(err as Error).message || 'Unknown error'}`);
+    } finally {
+      if (requestId === requestIdRef.current) setLoading(false);
+    }
+  }, [supabase, styleFilter, statusFilter, search, page]);
+
+  useEffect(() => {
+    loadImages();
+  }, [loadImages]);
+
+  const handleFilesChosen = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    setUploadQueue(prev => [
+      ...prev.filter(item => item.status !== 'done'),
+      ...files.map((file, index) => {
+        const problem = validateImageUpload(file);
+        return { key: `${Date.now()}-${index}-${file.name}`, file, status: problem ? 'failed' : 'queued', message: problem } as UploadItem;
+      }),
+    ]);
+  };
+
+  const updateUploadItem = (key: string, changes: Partial<UploadItem>) => {
+    setUploadQueue(prev => prev.map(item => (item.key === key ? { ...item, ...changes } : item)));
+  };
+
+  // Files go up one at a time so a failure is attributed to the right file and the rest still upload
+  const handleUpload = async () => {
+    const style = styles.find(option => option.id.toString() === uploadStyleId);
+    if (!supabase || !style) return;
+    setIsUploading(true);
+    setError(null);
+    for (const item of uploadQueue.filter(queued => queued.status === 'queued')) {
+      updateUploadItem(item.key, { status: 'uploading', message: null });
+      try {
+        await uploadLibraryImage(supabase, item.file, style);
+        updateUploadItem(item.key, { status: 'done', message: null });
+      } catch (err) {
+        updateUploadItem(item.key, { status: 'failed', message: (err as Error).message || 'Unknown error' });
+      }
+    }
+    setIsUploading(false);
+    if (page === 0) {
+      loadImages();
+    } else {
+      setPage(0);
+    }
+  };
+
+  const startEditing = (image: AdminImage) => {
+    setEditingId(image.id);
+    setDraft(toDraft(image));
+  };
+
+  const handleSave = async (image: AdminImage) => {
+    if (!supabase || !draft) return;
+    const yearBuilt = draft.year_built.trim() ? Number(draft.year_built) : null;
+    if (yearBuilt !== null && !Number.isInteger(yearBuilt)) {
+      setError('Year built must be a whole number.');
+      return;
+    }
+    setBusyImageId(image.id);
+    setError(null);
+    try {
+      const updated = await updateImageDetails(supabase, image.id, {
+        description: draft.description.trim() || null,
+        style_id: draft.style_id ? Number(draft.style_id) : null,
+        architect: draft.architect.trim() || null,
+        year_built: yearBuilt,
+        location: draft.location.trim() || null,
+      });
+      setImages(prev => prev.map(existing => (existing.id === image.id ? updated : existing)));
+      setEditingId(null);
+      setDraft(null);
+    } catch (err) {
+      setError(`Failed to save image #${image.id}: ${(err as Error).message || 'Unknown error'}`);
+    } finally {
+      setBusyImageId(null);
+    }
+  };
+
+  const handleToggleRetired = async (image: AdminImage) => {
+    if (!supabase) return;
+    setBusyImageId(image.id);
+    setError(null);
+    try {
+      await setImageRetired(supabase, image.id, !image.is_retired);
+      // The image no longer matches an active/retired filter, so drop it from this page
+      setImages(prev => (statusFilter === 'all'
+        ? prev.map(existing => (existing.id === image.id ? { ...existing, is_retired: !image.is_retired } : existing))
+        : prev.filter(existing => existing.id !== image.id)));
+      if (statusFilter !== 'all') setTotal(prev => prev - 1);
+    } catch (err) {
+      setError(`Failed to update image #${image.id}: ${(err as Error).message || 'Unknown error'}`);
+    } finally {
+      setBusyImageId(null);
+    }
+  };
+
+  const closePreview = useCallback(() => setPreviewImage(null), []);
+
+  const queuedCount = uploadQueue.filter(item => item.status === 'queued').length;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="space-y-10">
+      <div>
+        <h1 className="text-3xl font-bold text-slate-800">Image Library</h1>
+        <p className="text-sm text-slate-500 mt-1">Upload new buildings, keep their details tidy and retire cards that shouldn&apos;t be swiped any more.</p>
+      </div>
+
+      {error && <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-700 whitespace-pre-wrap">{error}</div>}
+
+      <section className="bg-white p-6 rounded-lg shadow-lg border border-slate-200">
+        <h2 className="text-xl font-semibold text-slate-700 mb-4 flex items-center">
+          <ImagePlusIcon size={22} className="mr-2 text-pink-600" /> Bulk Upload
+        </h2>
+        <div className="flex flex-wrap items-end gap-4">
+          <label className="text-xs font-medium text-slate-500 flex flex-col">
+            Style for this batch
+            <select value={uploadStyleId} onChange={e => setUploadStyleId(e.target.value)} disabled={isUploading} className={`mt-1 ${inputClasses}`}>
+              <option value="">Choose a style...</option>
+              {styles.map(style => <option key={style.id} value={style.id}>{style.name}</option>)}
+            </select>
+          </label>
+          <label className={`px-4 py-2 rounded-md border border-dashed border-slate-400 text-sm font-medium text-slate-600 ${isUploading ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:border-pink-500 hover:text-pink-600'}`}>
+            Choose images...
+            <input type="file" accept="image/*" multiple className="sr-only" onChange={handleFilesChosen} disabled={isUploading} />
+          </label>
+          <button
+            type="button"
+            onClick={handleUpload}
+            disabled={isUploading || queuedCount === 0 || !uploadStyleId}
+            className="px-4 py-2 bg-pink-600 text-white rounded-md text-sm font-semibold flex items-center hover:bg-pink-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <UploadIcon size={16} className="mr-1.5" />
+            {isUploading ? 'Uploading...' : `Upload ${queuedCount} ${queuedCount === 1 ? 'image' : 'images'}`}
+          </button>
+        </div>
+        <p className="text-xs text-slate-400 mt-2">Any image format, up to {MAX_IMAGE_UPLOAD_BYTES / (1024 * 1024)} MB each. Descriptions and other details can be added after upload.</p>
+        {uploadQueue.length > 0 && (
+          <ul className="mt-4 divide-y divide-slate-100 border border-slate-200 rounded-md">
+            {uploadQueue.map(item => (
+              <li key={item.key} className="px-3 py-2 flex items-center justify-between gap-4 text-sm">
+                <span className="truncate text-slate-700">{item.file.name}</span>
+                <span className={`flex-shrink-0 text-xs font-medium ${item.status === 'failed' ? 'text-red-600' : item.status === 'done' ? 'text-green-600' : item.status === 'uploading' ? 'text-pink-600' : 'text-slate-400'}`}>
+                  {item.status === 'failed' ? `Failed: ${item.message}` : item.status === 'done' ? 'Uploaded' : item.status === 'uploading' ? 'Uploading...' : 'Queued'}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section>
+        <div className="flex flex-wrap items-end gap-4 mb-6">
+          <label className="text-xs font-medium text-slate-500 flex flex-col">
+            Style
+            <select value={styleFilter ?? ''} onChange={e => setStyleFilter(e.target.value ? Number(e.target.value) : null)} className={`mt-1 ${inputClasses}`}>
+              <option value="">All styles</option>
+              {styles.map(style => <option key={style.id} value={style.id}>{style.name}</option>)}
+            </select>
+          </label>
+          <label className="text-xs font-medium text-slate-500 flex flex-col">
+            Status
+            <select value={statusFilter} onChange={e => setStatusFilter(e.target.value as ImageStatusFilter)} className={`mt-1 ${inputClasses}`}>
+              <option value="active">In the deck</option>
+              <option value="retired">Retired</option>
+              <option value="all">All images</option>
+            </select>
+          </label>
+          <label className="text-xs font-medium text-slate-500 flex flex-col flex-grow max-w-sm">
+            Search
+            <span className="relative mt-1">
+              <SearchIcon aria-hidden="true" size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+              <input type="search" value={searchInput} onChange={e => setSearchInput(e.target.value)} placeholder="Description, architect or location" className={`${inputClasses} pl-9`} />
+            </span>
+          </label>
+          <p className="text-sm text-slate-500 ml-auto">{total.toLocaleString()} {total === 1 ? 'image' : 'images'}</p>
+        </div>
+
+        {loading && images.length === 0 ? (
+          <p className="text-slate-500 italic text-sm">Loading images...</p>
+        ) : images.length === 0 ? (
+          <p className="text-slate-500 italic text-sm bg-white p-4 rounded-lg shadow-sm border">No images match these filters.</p>
+        ) : (
+          <ul className={`grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6 ${loading ? 'opacity-60' : ''}`}>
+            {images.map(image => {
+              const thumbnailUrl = getHouseImageUrl(supabase, image.storage_path, THUMBNAIL_WIDTH);
+              const isEditing = editingId === image.id && draft;
+              const isBusy = busyImageId === image.id;
+              return (
+                <li key={image.id} className={`bg-white rounded-lg shadow border overflow-hidden flex flex-col ${image.is_retired ? 'border-amber-300' : 'border-slate-200'}`}>
+                  <div className="relative aspect-[4/3] bg-slate-100">
+                    {thumbnailUrl && <img src={thumbnailUrl} alt={image.description || `Image #${image.id}`} loading="lazy" className={`w-full h-full object-cover ${image.is_retired ? 'grayscale' : ''}`} />}
+                    {image.is_retired && <span className="absolute top-2 left-2 px-2 py-0.5 rounded bg-amber-500 text-white text-xs font-semibold">Retired</span>}
+                  </div>
+                  <div className="p-4 flex-grow flex flex-col">
+                    {isEditing ? (
+                      <div className="space-y-2">
+                        <select aria-label="Style" value={draft.style_id} onChange={e => setDraft({ ...draft, style_id: e.target.value })} className={inputClasses}>
+                          <option value="">No style</option>
+                          {styles.map(style => <option key={style.id} value={style.id}>{style.name}</option>)}
+                        </select>
+                        <textarea aria-label="Description" rows={3} value={draft.description} onChange={e => setDraft({ ...draft, description: e.target.value })} placeholder="Description" className={inputClasses} />
+                        <input aria-label="Architect" type="text" value={draft.architect} onChange={e => setDraft({ ...draft, architect: e.target.value })} placeholder="Architect" className={inputClasses} />
+                        <div className="flex gap-2">
+                          <input aria-label="Year built" type="number" value={draft.year_built} onChange={e => setDraft({ ...draft, year_built: e.target.value })} placeholder="Year" className={`${inputClasses} w-24`} />
+                          <input aria-label="Location" type="text" value={draft.location} onChange={e => setDraft({ ...draft, location: e.target.value })} placeholder="Location" className={inputClasses} />
+                        </div>
+                        <div className="flex justify-end gap-2 pt-1">
+                          <button type="button" onClick={() => { setEditingId(null); setDraft(null); }} disabled={isBusy} className="px-3 py-1.5 text-sm text-slate-600 hover:underline">Cancel</button>
+                          <button type="button" onClick={() => handleSave(image)} disabled={isBusy} className="px-3 py-1.5 bg-pink-600 text-white rounded-md text-sm font-semibold hover:bg-pink-700 disabled:opacity-60 disabled:cursor-wait">
+                            {isBusy ? 'Saving...' : 'Save'}
+                          </button>
+                        </div>
+                      </div>
+                    ) : (
+                      <>
+                        <p className="text-sm font-semibold text-slate-800">{image.styles?.name || <span className="text-amber-600">No style</span>}</p>
+                        <p className={`text-xs mt-1 line-clamp-3 ${image.description ? 'text-slate-600' : 'text-slate-400 italic'}`}>{image.description || 'No description yet.'}</p>
+                        <p className="text-xs text-slate-400 mt-auto pt-3">#{image.id} · {image.storage_path}</p>
+                      </>
+                    )}
+                  </div>
+                  {!isEditing && (
+                    <div className="border-t border-slate-100 px-4 py-2 flex justify-between">
+                      <button type="button" onClick={() => startEditing(image)} className="text-sm text-slate-600 hover:text-pink-600 flex items-center">
+                        <EditIcon size={14} className="mr-1" /> Edit
+                      </button>
+                      <button type="button" onClick={() => setPreviewImage(image)} className="text-sm text-slate-600 hover:text-pink-600 flex items-center">
+                        <EyeIcon size={14} className="mr-1" /> Preview
+                      </button>
+                      <button type="button" onClick={() => handleToggleRetired(image)} disabled={isBusy} className={`text-sm flex items-center disabled:opacity-50 ${image.is_retired ? 'text-green-700 hover:text-green-800' : 'text-amber-700 hover:text-amber-800'}`}>
+                        {image.is_retired ? <><ArchiveRestoreIcon size={14} className="mr-1" /> Restore</> : <><ArchiveIcon size={14} className="mr-1" /> Retire</>}
+                      </button>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {pageCount > 1 && (
+          <div className="flex items-center justify-center gap-4 mt-8 text-sm">
+            <button type="button" onClick={() => setPage(prev => prev - 1)} disabled={page === 0 || loading} className="px-4 py-2 rounded-md border border-slate-300 bg-white hover:border-pink-400 disabled:opacity-50">Previous</button>
+            <span className="text-slate-500">Page {page + 1} of {pageCount}</span>
+            <button type="button" onClick={() => setPage(prev => prev + 1)} disabled={page + 1 >= pageCount || loading} className="px-4 py-2 rounded-md border border-slate-300 bg-white hover:border-pink-400 disabled:opacity-50">Next</button>
+          </div>
+        )}
+      </section>
+
+      {previewImage && (
+        <CardPreview image={previewImage} imageUrl={getHouseImageUrl(supabase, previewImage.storage_path)} onClose={closePreview} />
+      )}
+    </div>
+  );
+}
@@ -4,7 +4,7 @@ import React, { useEffect } from 'react'; // Ensure React is imported
 import { useAuth } from '@/app/context/AuthContext';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
-import { LayoutDashboard, BarChart3, LogOut } from 'lucide-react'; // Example icons
+import { LayoutDashboard, BarChart3, Image as ImageIcon, Tags as TagsIcon, Users as UsersIcon, LogOut } from 'lucide-react'; // Example icons
 
 export default function AdminLayout({ children }: { children: React.ReactNode }) {
   const { session, isLoading: isLoadingAuth, supabase } = useAuth(); // Renamed isLoading to isLoadingAuth for clarity
@@ -79,6 +79,15 @@ export default function AdminLayout({ children }: { children: React.ReactNode })
             <Link href="/admin/trends" className="px-3 py-2 hover:bg-slate-700 rounded-md transition-colors text-sm font-medium flex items-center">
                 <BarChart3 size={18} className="mr-1.5" /> Trends
             </Link>
+            <Link href="/admin/images" className="px-3 py-2 hover:bg-slate-700 rounded-md transition-colors text-sm font-medium flex items-center">
+                <ImageIcon size={18} className="mr-1.5" /> Images
+            </Link>
+            <Link href="/admin/styles" className="px-3 py-2 hover:bg-slate-700 rounded-md transition-colors text-sm font-medium flex items-center">
+                <TagsIcon size={18} className="mr-1.5" /> Styles
+            </Link>
+            <Link href="/admin/users" className="px-3 py-2 hover:bg-slate-700 rounded-md transition-colors text-sm font-medium flex items-center">
+                <UsersIcon size={18} className="mr-1.5" /> Users
+            </Link>
             {/* Add more admin nav links here later */}
             <button
                 onClick={handleSignOut}
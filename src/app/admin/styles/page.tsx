@@ -0,0 +1,259 @@
+// src/app/admin/styles/page.tsx
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/app/context/AuthContext';
+import {
+  createStyle,
+  deleteStyle,
+  fetchStyleTaxonomy,
+  getMergeTargets,
+  getParentOptions,
+  MAX_STYLE_NAME_LENGTH,
+  mergeStyles,
+  normalizeStyleName,
+  renameStyle,
+  setStyleParent,
+  TaxonomyStyle,
+} from '@/app/lib/styleTaxonomy';
+import {
+  Check as CheckIcon,
+  CornerDownRight as SubStyleIcon,
+  Edit3 as EditIcon,
+  GitMerge as MergeIcon,
+  Plus as PlusIcon,
+  Tags as TagsIcon,
+  Trash2 as TrashIcon,
+  X as XIcon,
+} from 'lucide-react';
+
+const inputClasses = "px-3 py-2 border border-slate-300 rounded-md bg-white text-sm text-slate-700 focus:ring-pink-500 focus:border-pink-500";
+
+export default function AdminStylesPage() {
+  const { supabase } = useAuth();
+  const [styles, setStyles] = useState<TaxonomyStyle[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [busyStyleId, setBusyStyleId] = useState<number | null>(null);
+
+  const [newName, setNewName] = useState('');
+  const [newParentId, setNewParentId] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  const [renamingId, setRenamingId] = useState<number | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [mergingId, setMergingId] = useState<number | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+
+  const loadStyles = useCallback(async () => {
+    if (!supabase) return;
+    try {
+      setStyles(await fetchStyleTaxonomy(supabase));
+    } catch (err) {
+      setError(`Failed to load styles: ${(err as Error).message || 'Unknown error'}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [supabase]);
+
+  useEffect(() => {
+    loadStyles();
+  }, [loadStyles]);
+
+  const isNameTaken = (name: string, exceptId?: number) =>
+    styles.some(style => style.id !== exceptId && style.name.toLowerCase() === normalizeStyleName(name).toLowerCase());
+
+  // Every change reloads the whole taxonomy, since merges and deletes also move images and sub-styles
+  const runChange = async (styleId: number | null, change: () => Promise<void>, successMessage: string) => {
+    setBusyStyleId(styleId);
+    setError(null);
+    setNotice(null);
+    try {
+      await change();
+      setNotice(successMessage);
+      await loadStyles();
+      return true;
+    } catch (err) {
+      setError((err as Error).message || 'Unknown error');
+      return false;
+    } finally {
+      setBusyStyleId(null);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = normalizeStyleName(newName);
+    if (!supabase || !name) return;
+    if (isNameTaken(name)) {
+      setError(`A style called "${name}" already exists.`);
+      return;
+    }
+    setCreating(true);
+    const created = await runChange(null, () => createStyle(supabase, name, newParentId ? Number(newParentId) : null), `Created "${name}".`);
+    setCreating(false);
+    if (created) {
+      setNewName('');
+      setNewParentId('');
+    }
+  };
+
+  const handleRename = async (style: TaxonomyStyle) => {
+    const name = normalizeStyleName(renameValue);
+    if (!supabase || !name || name === style.name) {
+      setRenamingId(null);
+      return;
+    }
+    if (isNameTaken(name, style.id)) {
+      setError(`A style called "${name}" already exists. Merge the two styles instead.`);
+      return;
+    }
+    if (await runChange(style.id, () => renameStyle(supabase, style.id, name), `Renamed "${style.name}" to "${name}".`)) {
+      setRenamingId(null);
+    }
+  };
+
+  const handleParentChange = (style: TaxonomyStyle, parentId: string) => {
+    if (!supabase) return;
+    const parent = styles.find(other => other.id.toString() === parentId);
+    runChange(
+      style.id,
+      () => setStyleParent(supabase, style.id, parent ? parent.id : null),
+      parent ? `"${style.name}" is now grouped under "${parent.name}".` : `"${style.name}" is now a top-level style.`
+    );
+  };
+
+  const handleMerge = async (style: TaxonomyStyle) => {
+    const target = styles.find(other => other.id.toString() === mergeTargetId);
+    if (!supabase || !target) return;
+    const confirmation = `Merge "${style.name}" into "${target.name}"? Its ${style.image_count} ${style.image_count === 1 ? 'image moves' : 'images move'} to "${target.name}", users who picked "${style.name}" get "${target.name}" instead, and "${style.name}" is deleted. This can't be undone.`;
+    if (!window.confirm(confirmation)) return;
+    if (await runChange(style.id, () => mergeStyles(supabase, style.id, target.id), `Merged "${style.name}" into "${target.name}".`)) {
+      setMergingId(null);
+      setMergeTargetId('');
+    }
+  };
+
+  const handleDelete = (style: TaxonomyStyle) => {
+    if (!supabase) return;
+    if (!window.confirm(`Delete "${style.name}"? It is removed from users' preferences and any sub-styles become top-level.`)) return;
+    runChange(style.id, () => deleteStyle(supabase, style.id), `Deleted "${style.name}".`);
+  };
+
+  const topLevelStyles = styles.filter(style => style.parent_id === null);
+  const orderedStyles = [
+    ...topLevelStyles.flatMap(parent => [parent, ...styles.filter(style => style.parent_id === parent.id)]),
+    // Sub-styles whose parent row has gone missing still need to be reachable
+    ...styles.filter(style => style.parent_id !== null && !styles.some(parent => parent.id === style.parent_id)),
+  ];
+
+  const renderStyleRow = (style: TaxonomyStyle) => {
+    const isChild = style.parent_id !== null;
+    const isBusy = busyStyleId === style.id;
+    const parentOptions = getParentOptions(styles, style);
+    const hasChildren = styles.some(other => other.parent_id === style.id);
+
+    return (
+      <li key={style.id} className={`px-4 py-3 ${isChild ? 'pl-10 bg-slate-50/60' : ''} ${isBusy ? 'opacity-60' : ''}`}>
+        <div className="flex flex-wrap items-center gap-3">
+          {isChild && <SubStyleIcon aria-hidden="true" size={16} className="text-slate-400 -ml-6" />}
+          {renamingId === style.id ? (
+            <form onSubmit={e => { e.preventDefault(); handleRename(style); }} className="flex items-center gap-2">
+              <label htmlFor={`rename-${style.id}`} className="sr-only">New name for {style.name}</label>
+              <input id={`rename-${style.id}`} type="text" value={renameValue} onChange={e => setRenameValue(e.target.value)} maxLength={MAX_STYLE_NAME_LENGTH} autoFocus className={inputClasses} />
+              <button type="submit" disabled={isBusy} aria-label="Save name" className="p-1.5 rounded-md text-green-700 hover:bg-green-50"><CheckIcon size={18} /></button>
+              <button type="button" onClick={() => setRenamingId(null)} aria-label="Cancel rename" className="p-1.5 rounded-md text-slate-500 hover:bg-slate-100"><XIcon size={18} /></button>
+            </form>
+          ) : (
+            <span className={`text-sm ${isChild ? 'text-slate-700' : 'font-semibold text-slate-800'}`}>{style.name}</span>
+          )}
+          <span className="text-xs text-slate-400">{style.image_count.toLocaleString()} {style.image_count === 1 ? 'image' : 'images'}</span>
+
+          <div className="ml-auto flex flex-wrap items-center gap-2">
+            <label className="text-xs text-slate-500 flex items-center gap-1">
+              Parent
+              <select
+                value={style.parent_id ?? ''}
+                onChange={e => handleParentChange(style, e.target.value)}
+                disabled={isBusy || (parentOptions.length === 0 && !isChild)}
+                title={hasChildren ? 'Styles with sub-styles stay top-level' : undefined}
+                className={`${inputClasses} py-1`}
+              >
+                <option value="">None (top-level)</option>
+                {parentOptions.map(option => <option key={option.id} value={option.id}>{option.name}</option>)}
+              </select>
+            </label>
+            <button type="button" onClick={() => { setRenamingId(style.id); setRenameValue(style.name); }} disabled={isBusy} className="px-2 py-1 rounded-md text-sm text-slate-600 hover:bg-slate-100 flex items-center">
+              <EditIcon size={14} className="mr-1" /> Rename
+            </button>
+            <button type="button" onClick={() => { setMergingId(mergingId === style.id ? null : style.id); setMergeTargetId(''); }} disabled={isBusy} aria-expanded={mergingId === style.id} className="px-2 py-1 rounded-md text-sm text-slate-600 hover:bg-slate-100 flex items-center">
+              <MergeIcon size={14} className="mr-1" /> Merge
+            </button>
+            <button
+              type="button"
+              onClick={() => handleDelete(style)}
+              disabled={isBusy || style.image_count > 0}
+              title={style.image_count > 0 ? 'Merge this style into another to move its images first' : undefined}
+              className="px-2 py-1 rounded-md text-sm text-red-600 hover:bg-red-50 flex items-center disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <TrashIcon size={14} className="mr-1" /> Delete
+            </button>
+          </div>
+        </div>
+
+        {mergingId === style.id && (
+          <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+            <label htmlFor={`merge-${style.id}`} className="text-slate-600">Merge &quot;{style.name}&quot; into</label>
+            <select id={`merge-${style.id}`} value={mergeTargetId} onChange={e => setMergeTargetId(e.target.value)} className={`${inputClasses} py-1`}>
+              <option value="">Choose a style...</option>
+              {getMergeTargets(styles, style).map(other => <option key={other.id} value={other.id}>{other.name}</option>)}
+            </select>
+            <button type="button" onClick={() => handleMerge(style)} disabled={!mergeTargetId || isBusy} className="px-3 py-1.5 bg-pink-600 text-white rounded-md font-semibold hover:bg-pink-700 disabled:opacity-50">
+              {isBusy ? 'Merging...' : 'Merge'}
+            </button>
+          </div>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold text-slate-800 flex items-center"><TagsIcon size={28} className="mr-2 text-pink-600" /> Style Taxonomy</h1>
+        <p className="text-sm text-slate-500 mt-1">Styles appear as preference chips on profiles and drive every style statistic. Group sub-styles under a parent to roll them up on the trends page.</p>
+      </div>
+
+      {error && <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-700 whitespace-pre-wrap">{error}</div>}
+      {notice && <div className="p-4 bg-green-50 border border-green-200 rounded-lg text-green-700">{notice}</div>}
+
+      <form onSubmit={handleCreate} className="bg-white p-6 rounded-lg shadow-lg border border-slate-200 flex flex-wrap items-end gap-4">
+        <label className="text-xs font-medium text-slate-500 flex flex-col">
+          New style
+          <input type="text" value={newName} onChange={e => setNewName(e.target.value)} maxLength={MAX_STYLE_NAME_LENGTH} placeholder="e.g. Bauhaus" className={`mt-1 ${inputClasses}`} />
+        </label>
+        <label className="text-xs font-medium text-slate-500 flex flex-col">
+          Parent (optional)
+          <select value={newParentId} onChange={e => setNewParentId(e.target.value)} className={`mt-1 ${inputClasses}`}>
+            <option value="">None (top-level)</option>
+            {topLevelStyles.map(style => <option key={style.id} value={style.id}>{style.name}</option>)}
+          </select>
+        </label>
+        <button type="submit" disabled={creating || !normalizeStyleName(newName)} className="px-4 py-2 bg-pink-600 text-white rounded-md text-sm font-semibold flex items-center hover:bg-pink-700 disabled:opacity-50">
+          <PlusIcon size={16} className="mr-1" /> {creating ? 'Creating...' : 'Add style'}
+        </button>
+      </form>
+
+      {loading ? (
+        <p className="text-slate-500 italic text-sm">Loading styles...</p>
+      ) : styles.length === 0 ? (
+        <p className="text-slate-500 bg-white p-6 rounded-lg shadow border">No styles yet.</p>
+      ) : (
+        <ul className="bg-white rounded-lg shadow-lg border border-slate-200 divide-y divide-slate-200">
+          {orderedStyles.map(renderStyleRow)}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+// src/app/admin/trends/DateRangePicker.tsx
+'use client';
+
+import React from 'react';
+import { DATE_RANGE_PRESETS, DateRange, findMatchingPreset, getPresetRange, toDayString } from '@/app/lib/dateRange';
+import { Calendar as CalendarIcon } from 'lucide-react';
+
+interface DateRangePickerProps {
+  value: DateRange;
+  onChange: (range: DateRange) => void;
+  disabled?: boolean;
+}
+
+export const DateRangePicker = ({ value, onChange, disabled }: DateRangePickerProps) => {
+  const activePreset = findMatchingPreset(value);
+  const today = toDayString(new Date());
+  const inputClasses = "mt-1 px-3 py-1.5 border border-slate-300 rounded-md bg-white text-sm text-slate-700 focus:ring-pink-500 focus:border-pink-500";
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow border border-slate-200 flex flex-wrap items-end gap-4">
+      <div>
+        <p className="text-xs font-medium text-slate-500 mb-1 flex items-center"><CalendarIcon size={14} className="mr-1" /> Date range</p>
+        <div role="group" aria-label="Date range presets" className="flex flex-wrap gap-2">
+          {DATE_RANGE_PRESETS.map(preset => (
+            <button
+              key={preset.id}
+              type="button"
+              onClick={() => onChange(getPresetRange(preset))}
+              disabled={disabled}
+              aria-pressed={activePreset?.id === preset.id}
+              className={`px-3 py-1.5 rounded-md text-sm font-medium border transition-colors disabled:opacity-60 ${activePreset?.id === preset.id ? 'bg-pink-600 text-white border-pink-600' : 'bg-white text-slate-600 border-slate-300 hover:border-pink-400'}`}
+            >
+              {preset.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <label className="text-xs font-medium text-slate-500 flex flex-col">
+        From
+        <input type="date" value={value.from || ''} max={value.to || today} disabled={disabled} onChange={e => onChange({ ...value, from: e.target.value || null })} className={inputClasses} />
+      </label>
+      <label className="text-xs font-medium text-slate-500 flex flex-col">
+        To
+        <input type="date" value={value.to || ''} min={value.from || undefined} max={today} disabled={disabled} onChange={e => onChange({ ...value, to: e.target.value || null })} className={inputClasses} />
+      </label>
+    </div>
+  );
+};
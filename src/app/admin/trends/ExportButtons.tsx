@@ -0,0 +1,38 @@
+// src/app/admin/trends/ExportButtons.tsx
+'use client';
+
+import React from 'react';
+import { TrendsExportFormat } from '@/app/lib/trendsExport';
+import { Download as DownloadIcon } from 'lucide-react';
+
+interface ExportButtonsProps {
+  // What gets exported, for screen readers, e.g. "Export image performance"
+  label: string;
+  onExport: (format: TrendsExportFormat) => void;
+  disabled?: boolean;
+  // Shown next to the CSV button, e.g. when CSV downloads as a ZIP
+  csvHint?: string;
+}
+
+const FORMATS: { format: TrendsExportFormat; label: string }[] = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'json', label: 'JSON' },
+];
+
+export const ExportButtons = ({ label, onExport, disabled, csvHint }: ExportButtonsProps) => (
+  <div role="group" aria-label={label} className="flex items-center gap-2 text-sm">
+    <span className="text-xs font-medium text-slate-500 flex items-center"><DownloadIcon size={14} className="mr-1" /> Export</span>
+    {FORMATS.map(({ format, label: formatLabel }) => (
+      <button
+        key={format}
+        type="button"
+        onClick={() => onExport(format)}
+        disabled={disabled}
+        title={disabled ? 'Wait for the data to finish loading' : undefined}
+        className="px-2.5 py-1 rounded-md border border-slate-300 bg-white text-xs font-semibold text-slate-600 hover:border-pink-400 hover:text-pink-600 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {formatLabel}{format === 'csv' && csvHint ? ` ${csvHint}` : ''}
+      </button>
+    ))}
+  </div>
+);
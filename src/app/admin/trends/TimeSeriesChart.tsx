@@ -0,0 +1,111 @@
+// src/app/admin/trends/TimeSeriesChart.tsx
+'use client';
+
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+
+export interface TimeSeriesPoint {
+  day: string;
+  // Null where there is nothing to measure, e.g. a like ratio on a day without swipes
+  value: number | null;
+}
+
+export interface TimeSeriesMarker {
+  day: string;
+  label: string;
+}
+
+interface TimeSeriesChartProps {
+  title: string;
+  points: TimeSeriesPoint[];
+  kind: 'bar' | 'line';
+  formatValue: (value: number) => string;
+  // Fixed top of the y axis, e.g. 100 for percentages; otherwise the largest value
+  maxValue?: number;
+  markers?: TimeSeriesMarker[];
+  color?: string;
+}
+
+const WIDTH = 600;
+const HEIGHT = 180;
+const PADDING = { top: 10, right: 10, bottom: 24, left: 44 };
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const PLOT_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom;
+
+const formatDay = (day: string) => format(parseISO(day), 'd MMM');
+
+// Dependency-free SVG chart; hovering a day shows its exact value through the native tooltip
+export const TimeSeriesChart = ({ title, points, kind, formatValue, maxValue, markers = [], color = '#db2777' }: TimeSeriesChartProps) => {
+  const values = points.map(point => point.value).filter((value): value is number => value !== null);
+  const yMax = maxValue ?? Math.max(1, ...values);
+  const slotWidth = points.length > 0 ? PLOT_WIDTH / points.length : PLOT_WIDTH;
+  const xFor = (index: number) => PADDING.left + slotWidth * index + slotWidth / 2;
+  const yFor = (value: number) => PADDING.top + PLOT_HEIGHT - (value / yMax) * PLOT_HEIGHT;
+
+  // A line breaks wherever a day has no value rather than dropping to zero
+  const lineSegments: string[] = [];
+  if (kind === 'line') {
+    let current = '';
+    points.forEach((point, index) => {
+      if (point.value === null) {
+        if (current) lineSegments.push(current);
+        current = '';
+        return;
+      }
+      current += `${current ? 'L' : 'M'}${xFor(index)},${yFor(point.value)}`;
+    });
+    if (current) lineSegments.push(current);
+  }
+
+  const labelIndexes = points.length > 0 ? Array.from(new Set([0, Math.floor((points.length - 1) / 2), points.length - 1])) : [];
+  const latest = [...points].reverse().find(point => point.value !== null);
+  const summary = values.length > 0
+    ? `${title}: ${points.length} days, from ${formatValue(Math.min(...values))} to ${formatValue(Math.max(...values))}${latest ? `, latest ${formatValue(latest.value as number)} on ${formatDay(latest.day)}` : ''}.`
+    : `${title}: no data in this range.`;
+
+  return (
+    <figure className="bg-white p-4 rounded-lg shadow-lg border border-slate-200">
+      <figcaption className="text-sm font-semibold text-slate-600 mb-2">{title}</figcaption>
+      {points.length === 0 ? (
+        <p className="text-sm text-slate-400 py-10 text-center">No activity in this range.</p>
+      ) : (
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} role="img" aria-label={summary} className="w-full h-auto">
+          {[0, 0.5, 1].map(fraction => (
+            <g key={fraction}>
+              <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={yFor(yMax * fraction)} y2={yFor(yMax * fraction)} stroke="#e2e8f0" />
+              <text x={PADDING.left - 6} y={yFor(yMax * fraction) + 4} textAnchor="end" fontSize="10" fill="#64748b">{formatValue(yMax * fraction)}</text>
+            </g>
+          ))}
+          {markers.map(marker => {
+            const index = points.findIndex(point => point.day === marker.day);
+            if (index === -1) return null;
+            return (
+              <line key={`marker-${marker.day}`} x1={xFor(index)} x2={xFor(index)} y1={PADDING.top} y2={PADDING.top + PLOT_HEIGHT} stroke="#6366f1" strokeDasharray="3 3">
+                <title>{`${formatDay(marker.day)}: ${marker.label}`}</title>
+              </line>
+            );
+          })}
+          {kind === 'bar'
+            ? points.map((point, index) => point.value !== null && (
+              <rect key={point.day} x={xFor(index) - Math.max(1, slotWidth * 0.35)} width={Math.max(2, slotWidth * 0.7)} y={yFor(point.value)} height={PADDING.top + PLOT_HEIGHT - yFor(point.value)} fill={color} rx={1}>
+                <title>{`${formatDay(point.day)}: ${formatValue(point.value)}`}</title>
+              </rect>
+            ))
+            : (
+              <>
+                {lineSegments.map(path => <path key={path} d={path} fill="none" stroke={color} strokeWidth={2} />)}
+                {points.map((point, index) => point.value !== null && (
+                  <circle key={point.day} cx={xFor(index)} cy={yFor(point.value)} r={points.length > 60 ? 1.5 : 3} fill={color}>
+                    <title>{`${formatDay(point.day)}: ${formatValue(point.value)}`}</title>
+                  </circle>
+                ))}
+              </>
+            )}
+          {labelIndexes.map(index => (
+            <text key={`label-${index}`} x={xFor(index)} y={HEIGHT - 6} textAnchor="middle" fontSize="10" fill="#64748b">{formatDay(points[index].day)}</text>
+          ))}
+        </svg>
+      )}
+    </figure>
+  );
+};
@@ -4,6 +4,13 @@
 import React, { useEffect, useState } from 'react';
 import { useAuth } from '@/app/context/AuthContext'; 
 import { Clock as ClockIcon, Image as ImageIcon, TrendingUp, TrendingDown } from 'lucide-react'; 
+import { buildRollUpLookup, StyleNode } from '@/app/lib/styleTaxonomy';
+import { getHouseImageUrl } from '@/app/lib/houseImages';
+import { DATE_RANGE_PRESETS, DateRange, describeDateRange, getPresetRange, listDays, toRangeParams } from '@/app/lib/dateRange';
+import { DateRangePicker } from './DateRangePicker';
+import { TimeSeriesChart } from './TimeSeriesChart';
+import { ExportButtons } from './ExportButtons';
+import { exportTrendsPage, exportTrendsSection, TrendsExportFormat, TrendsExportParameters, TrendsExportSection } from '@/app/lib/trendsExport';
 
 // --- Interfaces ---
 interface GlobalPlatformStats {
@@ -32,6 +39,8 @@ interface ImagePerformanceItem {
   style_name: string | null;
   total_swipes: number;
   total_likes: number;
+  // Subset of total_likes
+  total_super_likes: number;
   like_ratio: number;
   performance_rank: 'top' | 'least';
 }
@@ -44,6 +53,26 @@ interface AvgTimePerStyleItem {
   total_timed_swipes_for_style: number;
 }
 
+// One row per deck ordering, from swipes tagged with deck_order
+interface DeckOrderComparisonItem {
+  deck_order: 'ranked' | 'unranked';
+  total_users: number;
+  total_swipes: number;
+  total_likes: number;
+  total_super_likes: number;
+  like_ratio: number;
+  avg_time_on_card_ms: number | null;
+}
+
+// One row per day that had swipes or new images; days with neither are left out
+interface DailyActivityItem {
+  day: string; // yyyy-MM-dd
+  total_swipes: number;
+  total_likes: number;
+  active_users: number;
+  images_added: number;
+}
+
 
 // --- Helper Components & Functions ---
 const AdminStatCard: React.FC<{ title: string; value: string | number; subtext?: string; icon?: React.ReactNode; bgColor?: string; textColor?: string; }> = 
@@ -67,12 +96,35 @@ const formatMsToSeconds = (ms: number | null | undefined): string => {
   return (ms / 1000).toFixed(1); 
 };
 
-// Helper to get public URL for Supabase Storage images
-const getSupabaseImageUrl = (storagePath: string, supabaseClient: any): string | null => {
-    if (!storagePath || !supabaseClient) return null;
-    // Assuming 'house-images' is your bucket name
-    const { data } = supabaseClient.storage.from('house-images').getPublicUrl(decodeURIComponent(storagePath));
-    return data?.publicUrl || null;
+
+// Sub-styles are folded into their parent; totals add up and the parent keeps its place by likes
+const rollUpStylePopularity = (items: GlobalStylePopularity[], rollUpLookup: Map<string, string>): GlobalStylePopularity[] => {
+  const totals = new Map<string, GlobalStylePopularity>();
+  items.forEach(item => {
+    const name = rollUpLookup.get(item.name) || item.name;
+    const existing = totals.get(name);
+    totals.set(name, existing
+      ? { name, total_likes: existing.total_likes + item.total_likes, total_passes: existing.total_passes + item.total_passes, total_views: existing.total_views + item.total_views }
+      : { ...item, name });
+  });
+  return Array.from(totals.values()).sort((a, b) => b.total_likes - a.total_likes);
+};
+
+// Averages are re-weighted by each style's number of timed swipes
+const rollUpAvgTimePerStyle = (items: AvgTimePerStyleItem[], rollUpLookup: Map<string, string>): AvgTimePerStyleItem[] => {
+  const totals = new Map<string, AvgTimePerStyleItem & { total_time_ms: number }>();
+  items.forEach(item => {
+    const name = rollUpLookup.get(item.style_name) || item.style_name;
+    const timeMs = (item.avg_time_on_card_ms || 0) * item.total_timed_swipes_for_style;
+    const existing = totals.get(name);
+    totals.set(name, existing
+      ? { ...existing, total_timed_swipes_for_style: existing.total_timed_swipes_for_style + item.total_timed_swipes_for_style, total_time_ms: existing.total_time_ms + timeMs }
+      : { ...item, style_name: name, total_time_ms: timeMs });
+  });
+  return Array.from(totals.values()).map(({ total_time_ms, ...item }) => ({
+    ...item,
+    avg_time_on_card_ms: item.total_timed_swipes_for_style > 0 ? total_time_ms / item.total_timed_swipes_for_style : null,
+  }));
 };
 
 
@@ -86,10 +138,20 @@ export default function AdminTrendsPage() {
   const [imagePerformance, setImagePerformance] = useState<ImagePerformanceItem[]>([]);
   // NEW: State for avg time per style
   const [avgTimePerStyle, setAvgTimePerStyle] = useState<AvgTimePerStyleItem[]>([]);
+  const [deckOrderComparison, setDeckOrderComparison] = useState<DeckOrderComparisonItem[]>([]);
+  const [styleNodes, setStyleNodes] = useState<StyleNode[]>([]);
+  const [rollUpStyles, setRollUpStyles] = useState(false);
+  const [dailyActivity, setDailyActivity] = useState<DailyActivityItem[]>([]);
+  // Every section is scoped to this range; the last 30 days keep the daily charts readable
+  const [dateRange, setDateRange] = useState<DateRange>(() => getPresetRange(DATE_RANGE_PRESETS[1]));
+  const [hasLoadedOnce, setHasLoadedOnce] = useState(false);
   
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const IMAGE_PERFORMANCE_LIMIT = 5; // How many top/least images to fetch
+  const TOP_STYLES_SHOWN = 10;
+  // Every style is fetched so sub-styles can be rolled up before taking the top ones
+  const STYLE_POPULARITY_FETCH_LIMIT = 1000;
 
   useEffect(() => {
     if (!supabase || !session) {
@@ -101,14 +163,18 @@ export default function AdminTrendsPage() {
       setLoading(true);
       setError(null);
       let partialError = null; // To store non-critical errors
+      const rangeParams = toRangeParams(dateRange);
 
       try {
-        const platformStatsPromise = supabase.rpc('get_overall_platform_stats');
-        const stylePopularityPromise = supabase.rpc('get_global_style_popularity', { limit_count: 10 });
-        const globalCadencePromise = supabase.rpc('admin_get_global_swipe_cadence');
+        const platformStatsPromise = supabase.rpc('get_overall_platform_stats', rangeParams);
+        const stylePopularityPromise = supabase.rpc('get_global_style_popularity', { limit_count: STYLE_POPULARITY_FETCH_LIMIT, ...rangeParams });
+        const globalCadencePromise = supabase.rpc('admin_get_global_swipe_cadence', rangeParams);
         // NEW: RPC calls
-        const imagePerformancePromise = supabase.rpc('admin_get_image_performance', { result_limit: IMAGE_PERFORMANCE_LIMIT });
-        const avgTimePerStylePromise = supabase.rpc('admin_get_avg_time_per_style');
+        const imagePerformancePromise = supabase.rpc('admin_get_image_performance', { result_limit: IMAGE_PERFORMANCE_LIMIT, ...rangeParams });
+        const avgTimePerStylePromise = supabase.rpc('admin_get_avg_time_per_style', rangeParams);
+        const deckOrderComparisonPromise = supabase.rpc('admin_get_deck_order_comparison', rangeParams);
+        const dailyActivityPromise = supabase.rpc('admin_get_daily_activity', rangeParams);
+        const styleNodesPromise = supabase.from('styles').select('id, name, parent_id');
 
 
         const [
@@ -116,13 +182,19 @@ export default function AdminTrendsPage() {
             stylePopularityRes, 
             globalCadenceRes,
             imagePerformanceRes, // NEW
-            avgTimePerStyleRes   // NEW
+            avgTimePerStyleRes,  // NEW
+            deckOrderComparisonRes,
+            styleNodesRes,
+            dailyActivityRes
         ] = await Promise.allSettled([ // Use Promise.allSettled to get all results even if some fail
           platformStatsPromise,
           stylePopularityPromise,
           globalCadencePromise,
           imagePerformancePromise,
-          avgTimePerStylePromise
+          avgTimePerStylePromise,
+          deckOrderComparisonPromise,
+          styleNodesPromise,
+          dailyActivityPromise
         ]);
 
         // Process platformStatsRes
@@ -180,6 +252,30 @@ export default function AdminTrendsPage() {
           setAvgTimePerStyle([]);
         }
 
+        if (deckOrderComparisonRes.status === 'fulfilled' && !deckOrderComparisonRes.value.error) {
+          setDeckOrderComparison(deckOrderComparisonRes.value.data || []);
+        } else {
+          console.error('Deck Order Comparison RPC Error:', deckOrderComparisonRes.status === 'rejected' ? deckOrderComparisonRes.reason : deckOrderComparisonRes.value.error);
+          partialError = partialError ? `${partialError}\nFailed to load deck ranking comparison.` : 'Failed to load deck ranking comparison.';
+          setDeckOrderComparison([]);
+        }
+
+        if (styleNodesRes.status === 'fulfilled' && !styleNodesRes.value.error) {
+          setStyleNodes(styleNodesRes.value.data || []);
+        } else {
+          // Without the taxonomy the style tables simply can't be rolled up
+          console.error('Style Taxonomy Error:', styleNodesRes.status === 'rejected' ? styleNodesRes.reason : styleNodesRes.value.error);
+          setStyleNodes([]);
+        }
+
+        if (dailyActivityRes.status === 'fulfilled' && !dailyActivityRes.value.error) {
+          setDailyActivity(dailyActivityRes.value.data || []);
+        } else {
+          console.error('Daily Activity RPC Error:', dailyActivityRes.status === 'rejected' ? dailyActivityRes.reason : dailyActivityRes.value.error);
+          partialError = partialError ? `${partialError}\nFailed to load daily activity.` : 'Failed to load daily activity.';
+          setDailyActivity([]);
+        }
+
         if(partialError) setError(partialError);
 
       } catch (err: any) { // Catch for Promise.all if not using allSettled, or other general errors
@@ -187,13 +283,15 @@ export default function AdminTrendsPage() {
         setError(err.message || "An unexpected error occurred.");
       } finally {
         setLoading(false);
+        setHasLoadedOnce(true);
       }
     };
 
     fetchData();
-  }, [supabase, session]); 
+  }, [supabase, session, dateRange]); 
 
-  if (loading) {
+  // Later range changes keep the current numbers on screen (dimmed) instead of flashing the spinner
+  if (loading && !hasLoadedOnce) {
     return (
         <div className="text-center py-20 flex flex-col items-center">
             <svg className="animate-spin h-12 w-12 text-pink-600 mb-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
@@ -218,10 +316,92 @@ export default function AdminTrendsPage() {
 
   const topPerformingImages = imagePerformance.filter(img => img.performance_rank === 'top');
   const leastPerformingImages = imagePerformance.filter(img => img.performance_rank === 'least');
+  const rankedDeck = deckOrderComparison.find(row => row.deck_order === 'ranked');
+  const unrankedDeck = deckOrderComparison.find(row => row.deck_order === 'unranked');
+  const likeRatioLift = rankedDeck && unrankedDeck ? rankedDeck.like_ratio - unrankedDeck.like_ratio : null;
+  const canRollUpStyles = styleNodes.some(style => style.parent_id !== null);
+  const rollUpLookup = canRollUpStyles && rollUpStyles ? buildRollUpLookup(styleNodes) : new Map<string, string>();
+  const displayedStylePopularity = rollUpStylePopularity(stylePopularity, rollUpLookup).slice(0, TOP_STYLES_SHOWN);
+  const displayedAvgTimePerStyle = rollUpLookup.size > 0 ? rollUpAvgTimePerStyle(avgTimePerStyle, rollUpLookup) : avgTimePerStyle;
+
+  // Fill in quiet days so the charts show gaps in activity instead of skipping over them
+  const activityByDay = new Map(dailyActivity.map(row => [row.day, row]));
+  const activityDays = dailyActivity.map(row => row.day).sort();
+  const seriesFrom = dateRange.from || activityDays[0];
+  const seriesTo = dateRange.to || activityDays[activityDays.length - 1];
+  const seriesDays = seriesFrom && seriesTo ? listDays(seriesFrom, seriesTo) : [];
+  const swipesPerDay = seriesDays.map(day => ({ day, value: activityByDay.get(day)?.total_swipes || 0 }));
+  const activeUsersPerDay = seriesDays.map(day => ({ day, value: activityByDay.get(day)?.active_users || 0 }));
+  const likeRatioPerDay = seriesDays.map(day => {
+    const row = activityByDay.get(day);
+    return { day, value: row && row.total_swipes > 0 ? (row.total_likes / row.total_swipes) * 100 : null };
+  });
+  const imageBatchMarkers = dailyActivity
+    .filter(row => row.images_added > 0)
+    .map(row => ({ day: row.day, label: `${row.images_added} ${row.images_added === 1 ? 'image' : 'images'} added` }));
+
+  // Exports hold the same numbers as the screen: rolled-up styles when roll-up is on, zero-filled quiet days
+  const exportSections: Record<string, TrendsExportSection> = {
+    platformOverview: {
+      id: 'platform_overview',
+      title: 'Platform Overview',
+      rows: platformStats || globalCadence ? [{
+        total_users: platformStats?.totalUsers ?? null,
+        total_swipes: platformStats?.totalSwipes ?? null,
+        total_likes: platformStats?.totalLikes ?? null,
+        platform_like_ratio: platformStats?.platformLikeRatio ?? null,
+        global_avg_swipe_time_ms: globalCadence?.global_avg_swipe_time_ms ?? null,
+        total_timed_swipes: globalCadence?.total_timed_swipes ?? null,
+      }] : [],
+    },
+    dailyActivity: {
+      id: 'daily_activity',
+      title: 'Activity Over Time',
+      rows: seriesDays.map(day => {
+        const row = activityByDay.get(day);
+        return { day, total_swipes: row?.total_swipes || 0, total_likes: row?.total_likes || 0, active_users: row?.active_users || 0, images_added: row?.images_added || 0 };
+      }),
+    },
+    imagePerformance: { id: 'image_performance', title: 'Image Performance', rows: imagePerformance },
+    avgTimePerStyle: { id: 'avg_time_per_style', title: 'Average Decision Time Per Style', rows: displayedAvgTimePerStyle },
+    deckOrderComparison: { id: 'deck_order_comparison', title: 'Deck Ranking: Ranked vs. Unranked', rows: deckOrderComparison },
+    // Every fetched style, not only the top ones shown in the table
+    stylePopularity: { id: 'style_popularity', title: 'Most Popular Styles', rows: rollUpStylePopularity(stylePopularity, rollUpLookup) },
+  };
+
+  const getExportParameters = (): TrendsExportParameters => ({
+    date_range: describeDateRange(dateRange),
+    date_from: dateRange.from,
+    date_to: dateRange.to,
+    ...toRangeParams(dateRange),
+    style_roll_up: rollUpLookup.size > 0,
+    image_performance_limit: IMAGE_PERFORMANCE_LIMIT,
+    exported_at: new Date().toISOString(),
+  });
+
+  const handleSectionExport = (section: TrendsExportSection) => (format: TrendsExportFormat) =>
+    exportTrendsSection(section, getExportParameters(), format);
 
   return (
-    <div className="space-y-10">
-      <h1 className="text-3xl font-bold text-slate-800 border-b-2 border-pink-500 pb-2">Platform Analytics Dashboard</h1>
+    <div className={`space-y-10 ${loading ? 'opacity-60 transition-opacity' : ''}`} aria-busy={loading}>
+      <div className="flex flex-wrap items-end justify-between gap-4 border-b-2 border-pink-500 pb-2">
+        <h1 className="text-3xl font-bold text-slate-800">Platform Analytics Dashboard</h1>
+        <ExportButtons
+          label="Export all sections"
+          onExport={format => exportTrendsPage(Object.values(exportSections), getExportParameters(), format)}
+          disabled={loading}
+          csvHint="(ZIP)"
+        />
+      </div>
+
+      <DateRangePicker value={dateRange} onChange={setDateRange} disabled={loading} />
+
+      {canRollUpStyles && (
+        <label className="flex items-center text-sm text-slate-600">
+          <input type="checkbox" checked={rollUpStyles} onChange={e => setRollUpStyles(e.target.checked)} className="mr-2 rounded border-slate-300 text-pink-600 focus:ring-pink-500" />
+          Roll sub-styles up into their parent styles in the style tables
+        </label>
+      )}
 
       {error && ( // Show partial error message if some data loaded but not all
          <div className="my-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-yellow-700 text-sm">
@@ -231,7 +411,10 @@ export default function AdminTrendsPage() {
 
       {platformStats || globalCadence ? (
         <section>
-          <h2 className="text-2xl font-semibold text-slate-700 mb-6">Platform Overview</h2>
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+          <h2 className="text-2xl font-semibold text-slate-700">Platform Overview <span className="text-base font-normal text-slate-400">· {describeDateRange(dateRange)}</span></h2>
+          <ExportButtons label="Export platform overview" onExport={handleSectionExport(exportSections.platformOverview)} disabled={loading || exportSections.platformOverview.rows.length === 0} />
+        </div>
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5 gap-6">
             {platformStats && (
               <>
@@ -260,9 +443,27 @@ export default function AdminTrendsPage() {
         !loading && <section><h2 className="text-2xl font-semibold text-slate-700 mb-6">Platform Overview</h2><p className="text-slate-500 bg-white p-6 rounded-lg shadow border">Platform overview data could not be loaded.</p></section>
       )}
 
+      <section>
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-2">
+          <h2 className="text-2xl font-semibold text-slate-700">Activity Over Time</h2>
+          <ExportButtons label="Export daily activity" onExport={handleSectionExport(exportSections.dailyActivity)} disabled={loading || exportSections.dailyActivity.rows.length === 0} />
+        </div>
+        <p className="text-sm text-slate-500 mb-6">
+          {describeDateRange(dateRange)}. Dashed lines mark days when new images were added to the library; hover a day for exact numbers.
+        </p>
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <TimeSeriesChart title="Swipes per day" points={swipesPerDay} kind="bar" formatValue={value => Math.round(value).toLocaleString()} markers={imageBatchMarkers} />
+          <TimeSeriesChart title="Active users per day" points={activeUsersPerDay} kind="bar" formatValue={value => Math.round(value).toLocaleString()} markers={imageBatchMarkers} color="#6366f1" />
+          <TimeSeriesChart title="Like ratio per day" points={likeRatioPerDay} kind="line" maxValue={100} formatValue={value => `${value.toFixed(0)}%`} markers={imageBatchMarkers} color="#16a34a" />
+        </div>
+      </section>
+
       {/* NEW: Image Performance Section */}
       <section>
-        <h2 className="text-2xl font-semibold text-slate-700 mb-6">Image Performance (Top {IMAGE_PERFORMANCE_LIMIT} & Least {IMAGE_PERFORMANCE_LIMIT})</h2>
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+          <h2 className="text-2xl font-semibold text-slate-700">Image Performance (Top {IMAGE_PERFORMANCE_LIMIT} & Least {IMAGE_PERFORMANCE_LIMIT})</h2>
+          <ExportButtons label="Export image performance" onExport={handleSectionExport(exportSections.imagePerformance)} disabled={loading || exportSections.imagePerformance.rows.length === 0} />
+        </div>
         {imagePerformance.length > 0 ? (
           <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
             <div>
@@ -270,9 +471,9 @@ export default function AdminTrendsPage() {
               <div className="space-y-3">
                 {topPerformingImages.map(img => (
                   <div key={`top-${img.image_id}`} className="bg-white p-4 rounded-lg shadow border border-slate-200 flex items-start space-x-4">
-                    {getSupabaseImageUrl(img.storage_path, supabase) && (
+                    {getHouseImageUrl(supabase, img.storage_path) && (
                         <img 
-                            src={getSupabaseImageUrl(img.storage_path, supabase)!} 
+                            src={getHouseImageUrl(supabase, img.storage_path)!} 
                             alt={`Image ${img.image_id}`} 
                             className="w-20 h-20 object-cover rounded-md flex-shrink-0" 
                         />
@@ -280,7 +481,7 @@ export default function AdminTrendsPage() {
                     <div className="flex-grow">
                       <p className="text-sm font-semibold text-slate-700">Image ID: {img.image_id}</p>
                       <p className="text-xs text-slate-500">Style: {img.style_name || 'N/A'}</p>
-                      <p className="text-xs text-slate-500">Swipes: {img.total_swipes.toLocaleString()}, Likes: {img.total_likes.toLocaleString()}</p>
+                      <p className="text-xs text-slate-500">Swipes: {img.total_swipes.toLocaleString()}, Likes: {img.total_likes.toLocaleString()}, Super Likes: {(img.total_super_likes || 0).toLocaleString()}</p>
                       <p className="text-sm font-bold text-green-500">Like Ratio: {img.like_ratio}%</p>
                     </div>
                   </div>
@@ -293,9 +494,9 @@ export default function AdminTrendsPage() {
               <div className="space-y-3">
                 {leastPerformingImages.map(img => (
                   <div key={`least-${img.image_id}`} className="bg-white p-4 rounded-lg shadow border border-slate-200 flex items-start space-x-4">
-                     {getSupabaseImageUrl(img.storage_path, supabase) && (
+                     {getHouseImageUrl(supabase, img.storage_path) && (
                         <img 
-                            src={getSupabaseImageUrl(img.storage_path, supabase)!} 
+                            src={getHouseImageUrl(supabase, img.storage_path)!} 
                             alt={`Image ${img.image_id}`} 
                             className="w-20 h-20 object-cover rounded-md flex-shrink-0"
                         />
@@ -303,7 +504,7 @@ export default function AdminTrendsPage() {
                     <div className="flex-grow">
                       <p className="text-sm font-semibold text-slate-700">Image ID: {img.image_id}</p>
                       <p className="text-xs text-slate-500">Style: {img.style_name || 'N/A'}</p>
-                      <p className="text-xs text-slate-500">Swipes: {img.total_swipes.toLocaleString()}, Likes: {img.total_likes.toLocaleString()}</p>
+                      <p className="text-xs text-slate-500">Swipes: {img.total_swipes.toLocaleString()}, Likes: {img.total_likes.toLocaleString()}, Super Likes: {(img.total_super_likes || 0).toLocaleString()}</p>
                       <p className="text-sm font-bold text-red-500">Like Ratio: {img.like_ratio}%</p>
                     </div>
                   </div>
@@ -319,7 +520,10 @@ export default function AdminTrendsPage() {
 
       {/* NEW: Average Decision Time Per Style Section */}
       <section>
-        <h2 className="text-2xl font-semibold text-slate-700 mb-6">Average Decision Time Per Style</h2>
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+          <h2 className="text-2xl font-semibold text-slate-700">Average Decision Time Per Style</h2>
+          <ExportButtons label="Export average decision time per style" onExport={handleSectionExport(exportSections.avgTimePerStyle)} disabled={loading || exportSections.avgTimePerStyle.rows.length === 0} />
+        </div>
         {avgTimePerStyle.length > 0 ? (
           <div className="overflow-x-auto bg-white rounded-lg shadow-lg border border-slate-200">
             <table className="min-w-full divide-y divide-slate-200">
@@ -331,8 +535,8 @@ export default function AdminTrendsPage() {
                 </tr>
               </thead>
               <tbody className="bg-white divide-y divide-slate-200">
-                {avgTimePerStyle.map((style) => (
-                  <tr key={style.style_id} className="hover:bg-slate-50 transition-colors">
+                {displayedAvgTimePerStyle.map((style) => (
+                  <tr key={style.style_name} className="hover:bg-slate-50 transition-colors">
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-slate-900">{style.style_name}</td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">{formatMsToSeconds(style.avg_time_on_card_ms)}</td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">{style.total_timed_swipes_for_style.toLocaleString()}</td>
@@ -347,7 +551,62 @@ export default function AdminTrendsPage() {
       </section>
 
       <section>
-        <h2 className="text-2xl font-semibold text-slate-700 mb-6">Most Popular Styles (Overall - Top 10 by Likes)</h2>
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-2">
+          <h2 className="text-2xl font-semibold text-slate-700">Deck Ranking: Ranked vs. Unranked</h2>
+          <ExportButtons label="Export deck ranking comparison" onExport={handleSectionExport(exportSections.deckOrderComparison)} disabled={loading || exportSections.deckOrderComparison.rows.length === 0} />
+        </div>
+        <p className="text-sm text-slate-500 mb-6">A fixed share of users keep the database order as a control group.</p>
+        {deckOrderComparison.length > 0 ? (
+          <div className="space-y-6">
+            {likeRatioLift !== null && (
+              <AdminStatCard
+                title="Like Ratio Lift"
+                value={`${likeRatioLift >= 0 ? '+' : ''}${likeRatioLift.toFixed(1)} pts`}
+                subtext="ranked minus unranked like ratio"
+                icon={likeRatioLift >= 0 ? <TrendingUp /> : <TrendingDown />}
+                bgColor={likeRatioLift >= 0 ? "bg-green-100" : "bg-red-100"}
+                textColor={likeRatioLift >= 0 ? "text-green-600" : "text-red-600"}
+              />
+            )}
+            <div className="overflow-x-auto bg-white rounded-lg shadow-lg border border-slate-200">
+              <table className="min-w-full divide-y divide-slate-200">
+                <thead className="bg-slate-50">
+                  <tr>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-semibold text-slate-500 uppercase tracking-wider">Deck Order</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-semibold text-slate-500 uppercase tracking-wider">Users</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-semibold text-slate-500 uppercase tracking-wider">Swipes</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-semibold text-slate-500 uppercase tracking-wider">Likes</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-semibold text-slate-500 uppercase tracking-wider">Super Likes</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-semibold text-slate-500 uppercase tracking-wider">Like Ratio</th>
+                    <th scope="col" className="px-6 py-3 text-left text-xs font-semibold text-slate-500 uppercase tracking-wider">Avg. Time (seconds)</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-slate-200">
+                  {deckOrderComparison.map((row) => (
+                    <tr key={row.deck_order} className="hover:bg-slate-50 transition-colors">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-slate-900 capitalize">{row.deck_order}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">{row.total_users.toLocaleString()}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">{row.total_swipes.toLocaleString()}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">{row.total_likes.toLocaleString()}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">{row.total_super_likes.toLocaleString()}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">{row.like_ratio.toFixed(1)}%</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">{formatMsToSeconds(row.avg_time_on_card_ms)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        ) : (
+         !loading && <p className="text-slate-500 bg-white p-6 rounded-lg shadow border">No swipes have been tagged with a deck order yet.</p>
+        )}
+      </section>
+
+      <section>
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+          <h2 className="text-2xl font-semibold text-slate-700">Most Popular Styles (Overall - Top {TOP_STYLES_SHOWN} by Likes{rollUpLookup.size > 0 ? ', Rolled Up' : ''})</h2>
+          <ExportButtons label="Export style popularity" onExport={handleSectionExport(exportSections.stylePopularity)} disabled={loading || exportSections.stylePopularity.rows.length === 0} />
+        </div>
         {stylePopularity.length > 0 ? (
           <div className="overflow-x-auto bg-white rounded-lg shadow-lg border border-slate-200">
             {/* ... existing style popularity table ... */}
@@ -361,7 +620,7 @@ export default function AdminTrendsPage() {
                 </tr>
               </thead>
               <tbody className="bg-white divide-y divide-slate-200">
-                {stylePopularity.map((style) => (
+                {displayedStylePopularity.map((style) => (
                   <tr key={style.name} className="hover:bg-slate-50 transition-colors">
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-slate-900">{style.name}</td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">{style.total_likes.toLocaleString()}</td>
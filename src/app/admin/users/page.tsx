@@ -0,0 +1,200 @@
+// src/app/admin/users/page.tsx
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { useAuth } from '@/app/context/AuthContext';
+import {
+  ADMIN_USERS_PAGE_SIZE,
+  AdminUserChange,
+  AdminUserSummary,
+  ASSIGNABLE_ROLES,
+  fetchAdminUsers,
+  getLastActivity,
+  updateAdminUser,
+} from '@/app/lib/adminUsers';
+import { Search as SearchIcon, ShieldCheck as ShieldIcon, UserX as SuspendIcon, UserCheck as ReinstateIcon, Users as UsersIcon } from 'lucide-react';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+export default function AdminUsersPage() {
+  const { session } = useAuth();
+  const [users, setUsers] = useState<AdminUserSummary[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyUserId, setBusyUserId] = useState<string | null>(null);
+  const requestIdRef = useRef(0);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearch(searchInput);
+      setPage(0);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const loadUsers = useCallback(async () => {
+    if (!session) return;
+    const requestId = ++requestIdRef.current;
+    setLoading(true);
+    try {
+      const result = await fetchAdminUsers(session, search, page);
+      if (requestId !== requestIdRef.current) return;
+      setUsers(result.users);
+      setTotal(result.total);
+      setError(null);
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return;
+      setError(`Failed to load users: ${(err as Error).message || 'Unknown error'}`);
+    } finally {
+      if (requestId === requestIdRef.current) setLoading(false);
+    }
+  }, [session, search, page]);
+
+  useEffect(() => {
+    loadUsers();
+  }, [loadUsers]);
+
+  const applyChange = async (user: AdminUserSummary, change: AdminUserChange, confirmation?: string) => {
+    if (!session || (confirmation && !window.confirm(confirmation))) return;
+    setBusyUserId(user.id);
+    setError(null);
+    try {
+      const updated = await updateAdminUser(session, user.id, change);
+      setUsers(prev => prev.map(existing => (existing.id === user.id ? updated : existing)));
+    } catch (err) {
+      setError(`Could not update ${user.email || user.username || 'this user'}: ${(err as Error).message || 'Unknown error'}`);
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  const toggleRole = (user: AdminUserSummary, role: string) => {
+    const hasRole = user.roles.includes(role);
+    const roles = ASSIGNABLE_ROLES.filter(assignable => (assignable === role ? !hasRole : user.roles.includes(assignable)));
+    const name = user.email || user.username || 'this user';
+    applyChange(user, { roles }, hasRole ? `Revoke the "${role}" role from ${name}?` : `Grant the "${role}" role to ${name}?`);
+  };
+
+  const toggleSuspended = (user: AdminUserSummary) => {
+    const name = user.email || user.username || 'this user';
+    applyChange(
+      user,
+      { suspended: !user.is_suspended },
+      user.is_suspended ? undefined : `Suspend ${name}? They won't be able to sign in until reinstated.`
+    );
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / ADMIN_USERS_PAGE_SIZE));
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold text-slate-800 flex items-center"><UsersIcon size={28} className="mr-2 text-pink-600" /> Users</h1>
+        <p className="text-sm text-slate-500 mt-1">Role changes apply the next time the user&apos;s session refreshes.</p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="relative flex-grow max-w-md">
+          <span className="sr-only">Search users</span>
+          <SearchIcon aria-hidden="true" size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+          <input
+            type="search"
+            value={searchInput}
+            onChange={e => setSearchInput(e.target.value)}
+            placeholder="Email, username or name"
+            className="w-full pl-9 pr-3 py-2 border border-slate-300 rounded-md bg-white text-sm text-slate-700 focus:ring-pink-500 focus:border-pink-500"
+          />
+        </label>
+        <p className="text-sm text-slate-500 ml-auto">{total.toLocaleString()} {total === 1 ? 'user' : 'users'}</p>
+      </div>
+
+      {error && <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-700 whitespace-pre-wrap">{error}</div>}
+
+      {loading && users.length === 0 ? (
+        <p className="text-slate-500 italic text-sm">Loading users...</p>
+      ) : users.length === 0 ? (
+        <p className="text-slate-500 bg-white p-6 rounded-lg shadow border">{search ? 'No users match this search.' : 'No users yet.'}</p>
+      ) : (
+        <div className={`overflow-x-auto bg-white rounded-lg shadow-lg border border-slate-200 ${loading ? 'opacity-60' : ''}`}>
+          <table className="min-w-full divide-y divide-slate-200">
+            <thead className="bg-slate-50">
+              <tr>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-semibold text-slate-500 uppercase tracking-wider">User</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-semibold text-slate-500 uppercase tracking-wider">Signed Up</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-semibold text-slate-500 uppercase tracking-wider">Swipes</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-semibold text-slate-500 uppercase tracking-wider">Last Active</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-semibold text-slate-500 uppercase tracking-wider">Roles</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-semibold text-slate-500 uppercase tracking-wider">Status</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-slate-200">
+              {users.map(user => {
+                const lastActivity = getLastActivity(user);
+                const isBusy = busyUserId === user.id;
+                const isSelf = user.id === session?.user.id;
+                return (
+                  <tr key={user.id} className={`hover:bg-slate-50 transition-colors ${isBusy ? 'opacity-60' : ''}`}>
+                    <td className="px-6 py-4 text-sm">
+                      <p className="font-medium text-slate-900">{user.full_name || user.username || 'No profile'}{isSelf && <span className="ml-1 text-xs text-slate-400">(you)</span>}</p>
+                      <p className="text-xs text-slate-500">{user.username ? `@${user.username} · ` : ''}{user.email || 'No email'}</p>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">{format(new Date(user.created_at), 'd MMM yyyy')}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">{user.total_swipes.toLocaleString()}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600" title={lastActivity ? format(new Date(lastActivity), 'd MMM yyyy, HH:mm') : undefined}>
+                      {lastActivity ? formatDistanceToNow(new Date(lastActivity), { addSuffix: true }) : 'Never'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <div className="flex flex-wrap gap-2">
+                        {ASSIGNABLE_ROLES.map(role => {
+                          const hasRole = user.roles.includes(role);
+                          return (
+                            <button
+                              key={role}
+                              type="button"
+                              onClick={() => toggleRole(user, role)}
+                              disabled={isBusy || (isSelf && role === 'admin')}
+                              aria-pressed={hasRole}
+                              title={isSelf && role === 'admin' ? 'You can\'t remove your own admin role' : undefined}
+                              className={`px-2.5 py-1 rounded-full text-xs font-semibold flex items-center border disabled:cursor-not-allowed ${hasRole ? 'bg-pink-600 text-white border-pink-600' : 'bg-white text-slate-500 border-slate-300 hover:border-pink-400 hover:text-pink-600'}`}
+                            >
+                              <ShieldIcon size={12} className="mr-1" /> {role}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <div className="flex items-center gap-3">
+                        <span className={`px-2 py-0.5 rounded text-xs font-semibold ${user.is_suspended ? 'bg-red-100 text-red-700' : 'bg-green-100 text-green-700'}`}>
+                          {user.is_suspended ? 'Suspended' : 'Active'}
+                        </span>
+                        {!isSelf && (
+                          <button type="button" onClick={() => toggleSuspended(user)} disabled={isBusy} className={`text-xs font-medium flex items-center disabled:opacity-50 ${user.is_suspended ? 'text-green-700 hover:text-green-800' : 'text-red-600 hover:text-red-700'}`}>
+                            {user.is_suspended ? <><ReinstateIcon size={14} className="mr-1" /> Reinstate</> : <><SuspendIcon size={14} className="mr-1" /> Suspend</>}
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {pageCount > 1 && (
+        <div className="flex items-center justify-center gap-4 text-sm">
+          <button type="button" onClick={() => setPage(prev => prev - 1)} disabled={page === 0 || loading} className="px-4 py-2 rounded-md border border-slate-300 bg-white hover:border-pink-400 disabled:opacity-50">Previous</button>
+          <span className="text-slate-500">Page {page + 1} of {pageCount}</span>
+          <button type="button" onClick={() => setPage(prev => prev + 1)} disabled={page + 1 >= pageCount || loading} className="px-4 py-2 rounded-md border border-slate-300 bg-white hover:border-pink-400 disabled:opacity-50">Next</button>
+        </div>
+      )}
+    </div>
+  );
+}
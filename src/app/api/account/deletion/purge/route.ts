@@ -0,0 +1,57 @@
+// src/app/api/account/deletion/purge/route.ts
+import { createHash, timingSafeEqual } from 'crypto';
+import { NextResponse } from 'next/server';
+import { createSupabaseAdminClient } from '@/app/lib/supabaseAdmin';
+import { purgeAccount } from '@/app/lib/accountPurge';
+
+export const dynamic = 'force-dynamic';
+
+// Accounts purged per run; anything left over is picked up by the next run
+const PURGE_BATCH_SIZE = 25;
+
+// Hashing first gives both sides the same length, so the comparison takes the same time whatever was sent
+const matchesSecret = (received: string, expected: string) =>
+  timingSafeEqual(createHash('sha256').update(received).digest(), createHash('sha256').update(expected).digest());
+
+/**
+ * Purges accounts whose grace period has ended. Runs daily from the cron in vercel.json, which sends
+ * "Authorization: Bearer <CRON_SECRET>"; other hosts need an external scheduler (see README).
+ */
+export async function GET(request: Request) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    console.error('Missing environment variable: CRON_SECRET');
+    return NextResponse.json({ error: 'Purging is not configured.' }, { status: 500 });
+  }
+  if (!matchesSecret(request.headers.get('authorization') || '', `Bearer ${cronSecret}`)) {
+    return NextResponse.json({ error: 'Unauthorized.' }, { status: 401 });
+  }
+
+  try {
+    const admin = createSupabaseAdminClient();
+    const { data: dueRequests, error } = await admin
+      .from('account_deletion_requests')
+      .select('user_id')
+      .lte('scheduled_for', new Date().toISOString())
+      .order('scheduled_for', { ascending: true })
+      .limit(PURGE_BATCH_SIZE);
+    if (error) throw error;
+
+    const purged: string[] = [];
+    const failed: { user_id: string; error: string }[] = [];
+    // One at a time so a single broken account doesn't stop the rest
+    for (const { user_id } of dueRequests || []) {
+      try {
+        await purgeAccount(admin, user_id);
+        purged.push(user_id);
+      } catch (err) {
+        console.error(`Failed to purge account ${user_id}:`, err);
+        failed.push({ user_id, error: (err as Error).message || 'Unknown error' });
+      }
+    }
+    return NextResponse.json({ purged: purged.length, failed });
+  } catch (err) {
+    console.error('Account purge run failed:', err);
+    return NextResponse.json({ error: (err as Error).message || 'Unknown error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+// src/app/api/account/deletion/route.ts
+import { NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { withCaller } from '@/app/lib/supabaseAdmin';
+import { ACCOUNT_DELETION_GRACE_DAYS, AccountDeletion } from '@/app/lib/accountDeletion';
+
+export const dynamic = 'force-dynamic';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const fetchPendingDeletion = async (admin: SupabaseClient, userId: string): Promise<AccountDeletion | null> => {
+  const { data, error } = await admin
+    .from('account_deletion_requests')
+    .select('requested_at, scheduled_for')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+};
+
+export async function GET(request: Request) {
+  return withCaller(request, async (admin, user) => NextResponse.json({ deletion: await fetchPendingDeletion(admin, user.id) }));
+}
+
+// Schedules deletion after the grace period; asking again while one is pending keeps the original date
+export async function POST(request: Request) {
+  return withCaller(request, async (admin, user) => {
+    const existing = await fetchPendingDeletion(admin, user.id);
+    if (existing) return NextResponse.json({ deletion: existing });
+
+    const requestedAt = new Date();
+    const { data, error } = await admin
+      .from('account_deletion_requests')
+      .insert({
+        user_id: user.id,
+        requested_at: requestedAt.toISOString(),
+        scheduled_for: new Date(requestedAt.getTime() + ACCOUNT_DELETION_GRACE_DAYS * DAY_MS).toISOString(),
+      })
+      .select('requested_at, scheduled_for')
+      .single();
+    if (error) throw error;
+    return NextResponse.json({ deletion: data }, { status: 201 });
+  });
+}
+
+export async function DELETE(request: Request) {
+  return withCaller(request, async (admin, user) => {
+    const { error } = await admin.from('account_deletion_requests').delete().eq('user_id', user.id);
+    if (error) throw error;
+    return NextResponse.json({ deletion: null });
+  });
+}
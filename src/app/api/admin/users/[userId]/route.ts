@@ -0,0 +1,45 @@
+// src/app/api/admin/users/[userId]/route.ts
+import { NextResponse } from 'next/server';
+import { withCaller } from '@/app/lib/supabaseAdmin';
+import { getAdminUserSummary, SUSPENSION_BAN_DURATION } from '@/app/lib/adminUserDirectory';
+import { ASSIGNABLE_ROLES } from '@/app/lib/adminUsers';
+
+export const dynamic = 'force-dynamic';
+
+const jsonError = (message: string, status: number) => NextResponse.json({ error: message }, { status });
+
+// Body is either { roles: string[] } or { suspended: boolean }
+export async function PATCH(request: Request, { params }: { params: { userId: string } }) {
+  return withCaller(request, async (admin, caller) => {
+    const body = await request.json().catch(() => null);
+    const { userId } = params;
+
+    const { data: target, error: targetError } = await admin.auth.admin.getUserById(userId);
+    if (targetError || !target.user) return jsonError('User not found.', 404);
+
+    if (body && Array.isArray(body.roles)) {
+      const roles: string[] = body.roles;
+      const unknownRole = roles.find(role => !(ASSIGNABLE_ROLES as readonly string[]).includes(role));
+      if (unknownRole) return jsonError(`"${unknownRole}" is not a role that can be assigned.`, 400);
+      // Otherwise the last admin could lock everyone out of the admin area
+      if (userId === caller.id && !roles.includes('admin')) return jsonError('You can\'t remove your own admin role.', 400);
+      // Roles outside ASSIGNABLE_ROLES were set some other way and are left alone
+      const otherRoles = (target.user.app_metadata?.roles || []).filter((role: string) => !(ASSIGNABLE_ROLES as readonly string[]).includes(role));
+      const { error } = await admin.auth.admin.updateUserById(userId, {
+        app_metadata: { ...target.user.app_metadata, roles: [...otherRoles, ...roles] },
+      });
+      if (error) throw error;
+    } else if (body && typeof body.suspended === 'boolean') {
+      if (userId === caller.id) return jsonError('You can\'t suspend yourself.', 400);
+      // A ban blocks sign-ins and token refreshes; an access token already issued lasts until it expires
+      const { error } = await admin.auth.admin.updateUserById(userId, {
+        ban_duration: body.suspended ? SUSPENSION_BAN_DURATION : 'none',
+      });
+      if (error) throw error;
+    } else {
+      return jsonError('Send either "roles" or "suspended".', 400);
+    }
+
+    return NextResponse.json({ user: await getAdminUserSummary(admin, userId) });
+  }, { requireAdmin: true });
+}
@@ -0,0 +1,14 @@
+// src/app/api/admin/users/route.ts
+import { NextResponse } from 'next/server';
+import { withCaller } from '@/app/lib/supabaseAdmin';
+import { searchAdminUsers } from '@/app/lib/adminUserDirectory';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  return withCaller(request, async admin => {
+    const params = new URL(request.url).searchParams;
+    const page = Math.max(0, Number.parseInt(params.get('page') || '0', 10) || 0);
+    return NextResponse.json(await searchAdminUsers(admin, params.get('search') || '', page));
+  }, { requireAdmin: true });
+}
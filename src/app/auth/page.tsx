@@ -6,6 +6,9 @@ import { ThemeSupa } from '@supabase/auth-ui-shared';
 import { supabase } from '@/app/lib/supabaseClient'; // Adjust path if needed
 import { useRouter } from 'next/navigation'; // Use next/navigation for App Router
 
+// Pages that send signed-out visitors here with ?next=; anything else goes home, so the param can't redirect off-site
+const ALLOWED_NEXT_PATHS = ['/match'];
+
 export default function AuthPage() {
   const router = useRouter();
 
@@ -16,8 +19,10 @@ export default function AuthPage() {
         if (event === 'SIGNED_IN') {
           // Redirect user to the home page (or swipe page later) after sign in
           console.log('User signed in, redirecting...');
+          const next = new URLSearchParams(window.location.search).get('next');
+          const destination = next && ALLOWED_NEXT_PATHS.includes(next) ? next : '/';
           // Use replace to avoid adding the auth page to browser history
-          router.replace('/');
+          router.replace(destination);
         }
         // Optional: Handle SIGNED_OUT event if needed
         // if (event === 'SIGNED_OUT') {
@@ -0,0 +1,167 @@
+// src/app/boards/BoardPicker.tsx
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/app/context/AuthContext';
+import {
+  addImageToBoard,
+  Board,
+  createBoard,
+  fetchBoardIdsForImage,
+  fetchBoards,
+  getNextBoardPosition,
+  MAX_BOARD_NAME_LENGTH,
+  normalizeBoardName,
+  removeImageFromBoard,
+} from '@/app/lib/boards';
+import { Check as CheckIcon, Plus as PlusIcon } from 'lucide-react';
+
+interface BoardPickerProps {
+  imageId: number;
+  className?: string;
+}
+
+// Checklist of the user's boards for one image, with a field to start a new board
+export const BoardPicker = ({ imageId, className = '' }: BoardPickerProps) => {
+  const { session, supabase } = useAuth();
+  const [boards, setBoards] = useState<Board[]>([]);
+  const [memberOf, setMemberOf] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [pendingBoardId, setPendingBoardId] = useState<string | null>(null);
+  const [newBoardName, setNewBoardName] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const userId = session?.user?.id;
+
+  useEffect(() => {
+    if (!userId || !supabase) return;
+    let cancelled = false;
+    const loadBoards = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const [userBoards, boardIds] = await Promise.all([
+          fetchBoards(supabase, userId),
+          fetchBoardIdsForImage(supabase, userId, imageId),
+        ]);
+        if (cancelled) return;
+        setBoards(userBoards);
+        setMemberOf(boardIds);
+      } catch (err) {
+        if (!cancelled) setError(`Failed to load boards: ${(err as Error).message || 'Unknown error'}`);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    loadBoards();
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, supabase, imageId]);
+
+  const toggleBoard = async (board: Board) => {
+    if (pendingBoardId) return;
+    const isMember = memberOf.has(board.id);
+    setPendingBoardId(board.id);
+    setError(null);
+    try {
+      if (isMember) {
+        await removeImageFromBoard(supabase, board.id, imageId);
+      } else {
+        await addImageToBoard(supabase, board.id, imageId);
+      }
+      setMemberOf(prev => {
+        const next = new Set(prev);
+        if (isMember) next.delete(board.id); else next.add(board.id);
+        return next;
+      });
+    } catch (err) {
+      setError(`Could not update "${board.name}": ${(err as Error).message || 'Unknown error'}`);
+    } finally {
+      setPendingBoardId(null);
+    }
+  };
+
+  const handleCreateBoard = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = normalizeBoardName(newBoardName);
+    if (!userId || !name || creating) return;
+    setCreating(true);
+    setError(null);
+    try {
+      const board = await createBoard(supabase, userId, name, getNextBoardPosition(boards));
+      await addImageToBoard(supabase, board.id, imageId);
+      setBoards(prev => [...prev, { ...board, image_count: 1 }]);
+      setMemberOf(prev => new Set(prev).add(board.id));
+      setNewBoardName('');
+    } catch (err) {
+      setError(`Could not create board: ${(err as Error).message || 'Unknown error'}`);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <div className={`bg-white rounded-xl shadow-xl border border-pink-100 p-4 w-72 text-left ${className}`}>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold text-gray-800 text-sm">Save to board</h3>
+        <Link href="/boards" className="text-xs text-pink-600 hover:underline">Manage boards</Link>
+      </div>
+
+      {error && <p role="alert" className="mb-3 p-2 bg-red-50 border border-red-200 rounded text-xs text-red-700">{error}</p>}
+
+      {loading ? (
+        <p className="text-xs text-gray-500 italic mb-3">Loading boards...</p>
+      ) : boards.length === 0 ? (
+        <p className="text-xs text-gray-500 mb-3">No boards yet. Name one below to start collecting.</p>
+      ) : (
+        <ul className="max-h-48 overflow-y-auto space-y-1 mb-3">
+          {boards.map(board => {
+            const isMember = memberOf.has(board.id);
+            return (
+              <li key={board.id}>
+                <button
+                  type="button"
+                  role="checkbox"
+                  aria-checked={isMember}
+                  onClick={() => toggleBoard(board)}
+                  disabled={pendingBoardId !== null}
+                  className={`w-full flex items-center px-2 py-1.5 rounded-lg text-sm ${isMember ? 'bg-pink-50 text-pink-700' : 'text-gray-700 hover:bg-gray-50'} disabled:cursor-wait focus:outline-none focus-visible:ring-2 focus-visible:ring-pink-300`}
+                >
+                  <span className={`w-4 h-4 mr-2 rounded border flex items-center justify-center flex-shrink-0 ${isMember ? 'bg-pink-500 border-pink-500' : 'border-gray-400'}`}>
+                    {isMember && <CheckIcon aria-hidden="true" size={12} className="text-white" />}
+                  </span>
+                  <span className="truncate">{board.name}</span>
+                  {pendingBoardId === board.id && <span className="ml-auto text-xs text-gray-400">Saving...</span>}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <form onSubmit={handleCreateBoard} className="flex items-center gap-2">
+        <label htmlFor={`new-board-${imageId}`} className="sr-only">New board name</label>
+        <input
+          id={`new-board-${imageId}`}
+          type="text"
+          value={newBoardName}
+          onChange={e => setNewBoardName(e.target.value)}
+          maxLength={MAX_BOARD_NAME_LENGTH}
+          placeholder="New board, e.g. Facade ideas"
+          className="flex-grow min-w-0 px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-pink-500 focus:border-pink-500"
+        />
+        <button
+          type="submit"
+          disabled={creating || !normalizeBoardName(newBoardName)}
+          aria-label="Create board and save"
+          className="p-2 rounded-lg bg-pink-600 text-white hover:bg-pink-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <PlusIcon aria-hidden="true" size={16} />
+        </button>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,201 @@
+// src/app/boards/[boardId]/page.tsx
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { useAuth } from '@/app/context/AuthContext';
+import {
+  Board,
+  BoardImage,
+  fetchBoard,
+  fetchBoardImages,
+  MAX_BOARD_NAME_LENGTH,
+  normalizeBoardName,
+  removeImageFromBoard,
+  renameBoard,
+} from '@/app/lib/boards';
+import { getHouseImageUrl } from '@/app/lib/houseImages';
+import {
+  ChevronLeft as ChevronLeftIcon,
+  Compass as CompassIcon,
+  Edit3 as EditIcon,
+  X as RemoveIcon,
+} from 'lucide-react';
+
+export default function BoardPage() {
+  const { session, supabase, isLoading: isLoadingAuth } = useAuth();
+  const router = useRouter();
+  const { boardId } = useParams<{ boardId: string }>();
+
+  const [board, setBoard] = useState<Board | null>(null);
+  const [images, setImages] = useState<BoardImage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [editingName, setEditingName] = useState('');
+  const [removingImageId, setRemovingImageId] = useState<number | null>(null);
+
+  // --- Nav Link Styles (copied from page.tsx for consistency) ---
+  const navLinkBase = "px-4 py-2 rounded-full font-medium smooth-transition text-sm shadow-sm hover:shadow-md";
+  const navLinkSecondary = `${navLinkBase} bg-white text-[rgb(var(--primary-text-soft-rgb))] border border-[rgba(var(--primary-light-rgb),0.5)] hover:bg-[rgba(var(--primary-light-rgb),0.2)]`;
+
+  useEffect(() => {
+    if (!isLoadingAuth && !session) {
+      router.replace('/auth');
+    }
+  }, [isLoadingAuth, session, router]);
+
+  const loadBoard = useCallback(async () => {
+    if (!session?.user?.id || !supabase || !boardId) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const loadedBoard = await fetchBoard(supabase, session.user.id, boardId);
+      if (!loadedBoard) {
+        setNotFound(true);
+        return;
+      }
+      setBoard(loadedBoard);
+      setImages(await fetchBoardImages(supabase, boardId));
+    } catch (err) {
+      setError(`Failed to load this board: ${(err as Error).message || 'Unknown error'}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [session, supabase, boardId]);
+
+  useEffect(() => {
+    loadBoard();
+  }, [loadBoard]);
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!board || !session?.user?.id) return;
+    const name = normalizeBoardName(editingName);
+    if (!name || name === board.name) {
+      setIsRenaming(false);
+      return;
+    }
+    setError(null);
+    try {
+      await renameBoard(supabase, session.user.id, board.id, name);
+      setBoard({ ...board, name });
+      setIsRenaming(false);
+    } catch (err) {
+      setError(`Could not rename this board: ${(err as Error).message || 'Unknown error'}`);
+    }
+  };
+
+  const handleRemove = async (imageId: number) => {
+    if (!board) return;
+    setRemovingImageId(imageId);
+    setError(null);
+    try {
+      await removeImageFromBoard(supabase, board.id, imageId);
+      setImages(prev => prev.filter(image => image.image_id !== imageId));
+    } catch (err) {
+      setError(`Could not remove the building: ${(err as Error).message || 'Unknown error'}`);
+    } finally {
+      setRemovingImageId(null);
+    }
+  };
+
+  if (isLoadingAuth || !session) return null;
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-pink-50 via-rose-50 to-fuchsia-50 text-slate-700">
+      <header className="sticky top-0 z-50 bg-white/80 backdrop-blur-md shadow-sm">
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-4">
+            <Link href="/" className="text-3xl font-bold text-[rgb(var(--primary-rgb))]">ArchiSwipe</Link>
+            <nav className="flex space-x-3 items-center">
+              <Link href="/swipe" className={navLinkSecondary}>
+                <CompassIcon size={18} className="inline mr-1" /> Swipe
+              </Link>
+            </nav>
+          </div>
+        </div>
+      </header>
+
+      <section className="max-w-5xl mx-auto px-4 py-8 sm:py-12">
+        <Link href="/boards" className="inline-flex items-center text-sm text-pink-600 hover:underline mb-4">
+          <ChevronLeftIcon size={16} className="mr-0.5" /> All boards
+        </Link>
+
+        {error && <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700 whitespace-pre-wrap">{error}</div>}
+
+        {loading && !board ? (
+          <p className="text-gray-500 italic text-sm">Loading board...</p>
+        ) : notFound ? (
+          <p className="text-gray-500 text-sm bg-white p-6 rounded-lg shadow-sm border">This board doesn&apos;t exist or belongs to someone else.</p>
+        ) : board && (
+          <>
+            <div className="flex items-center gap-3 mb-8">
+              {isRenaming ? (
+                <form onSubmit={handleRename} className="flex flex-grow items-center gap-2">
+                  <label htmlFor="board-name" className="sr-only">Board name</label>
+                  <input
+                    id="board-name"
+                    type="text"
+                    value={editingName}
+                    onChange={e => setEditingName(e.target.value)}
+                    onKeyDown={e => e.key === 'Escape' && setIsRenaming(false)}
+                    maxLength={MAX_BOARD_NAME_LENGTH}
+                    autoFocus
+                    className="flex-grow min-w-0 px-4 py-2 border border-gray-300 rounded-lg text-xl font-semibold focus:ring-pink-500 focus:border-pink-500"
+                  />
+                  <button type="submit" className="px-4 py-2 bg-green-500 text-white rounded-full text-sm font-semibold hover:bg-green-600">Save</button>
+                  <button type="button" onClick={() => setIsRenaming(false)} className="px-3 py-2 text-gray-500 text-sm hover:text-gray-800">Cancel</button>
+                </form>
+              ) : (
+                <>
+                  <h1 className="text-3xl font-bold text-slate-800 truncate">{board.name}</h1>
+                  <button
+                    type="button"
+                    onClick={() => { setEditingName(board.name); setIsRenaming(true); }}
+                    aria-label="Rename board"
+                    className="p-2 rounded-full text-gray-500 hover:bg-pink-50 hover:text-pink-600 focus:outline-none focus-visible:ring-2 focus-visible:ring-pink-300"
+                  >
+                    <EditIcon aria-hidden="true" size={18} />
+                  </button>
+                  <span className="ml-auto text-sm text-gray-500">{images.length} {images.length === 1 ? 'building' : 'buildings'}</span>
+                </>
+              )}
+            </div>
+
+            {images.length === 0 ? (
+              <p className="text-gray-500 italic text-sm bg-white p-4 rounded-lg shadow-sm border">
+                Nothing here yet. Save buildings to this board from your Likes tab or right after liking them.
+              </p>
+            ) : (
+              <ul className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+                {images.map(image => {
+                  const imageUrl = getHouseImageUrl(supabase, image.images.storage_path);
+                  return (
+                    <li key={image.image_id} className="relative group rounded-xl overflow-hidden bg-pink-50 shadow-sm border border-gray-200 aspect-square">
+                      {imageUrl && <img src={imageUrl} alt={image.images.description || `${image.images.styles?.name || 'Saved'} building`} loading="lazy" className="w-full h-full object-cover" />}
+                      <span className="absolute inset-x-0 bottom-0 bg-gradient-to-t from-black/70 to-transparent px-3 pt-6 pb-2 text-white text-sm font-semibold truncate">
+                        {image.images.styles?.name || 'Unknown style'}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => handleRemove(image.image_id)}
+                        disabled={removingImageId === image.image_id}
+                        aria-label="Remove from board"
+                        className="absolute top-2 right-2 p-1.5 rounded-full bg-black/50 text-white opacity-0 group-hover:opacity-100 focus:opacity-100 hover:bg-black/70 disabled:cursor-wait transition-opacity"
+                      >
+                        <RemoveIcon aria-hidden="true" size={14} />
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </>
+        )}
+      </section>
+    </main>
+  );
+}
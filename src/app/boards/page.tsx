@@ -0,0 +1,256 @@
+// src/app/boards/page.tsx
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/app/context/AuthContext';
+import {
+  Board,
+  createBoard,
+  deleteBoard,
+  fetchBoards,
+  getNextBoardPosition,
+  MAX_BOARD_NAME_LENGTH,
+  normalizeBoardName,
+  renameBoard,
+  saveBoardOrder,
+} from '@/app/lib/boards';
+import {
+  ArrowUp as ArrowUpIcon,
+  ArrowDown as ArrowDownIcon,
+  Compass as CompassIcon,
+  Edit3 as EditIcon,
+  FolderHeart as FolderHeartIcon,
+  Plus as PlusIcon,
+  Trash2 as TrashIcon,
+  User as UserIcon,
+} from 'lucide-react';
+
+export default function BoardsPage() {
+  const { session, supabase, isLoading: isLoadingAuth } = useAuth();
+  const router = useRouter();
+
+  const [boards, setBoards] = useState<Board[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [newBoardName, setNewBoardName] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [editingBoardId, setEditingBoardId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [busyBoardId, setBusyBoardId] = useState<string | null>(null);
+
+  // --- Nav Link Styles (copied from page.tsx for consistency) ---
+  const navLinkBase = "px-4 py-2 rounded-full font-medium smooth-transition text-sm shadow-sm hover:shadow-md";
+  const navLinkSecondary = `${navLinkBase} bg-white text-[rgb(var(--primary-text-soft-rgb))] border border-[rgba(var(--primary-light-rgb),0.5)] hover:bg-[rgba(var(--primary-light-rgb),0.2)]`;
+
+  useEffect(() => {
+    if (!isLoadingAuth && !session) {
+      router.replace('/auth');
+    }
+  }, [isLoadingAuth, session, router]);
+
+  const loadBoards = useCallback(async () => {
+    if (!session?.user?.id || !supabase) return;
+    setLoading(true);
+    setError(null);
+    try {
+      setBoards(await fetchBoards(supabase, session.user.id));
+    } catch (err) {
+      setError(`Failed to load boards: ${(err as Error).message || 'Unknown error'}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [session, supabase]);
+
+  useEffect(() => {
+    loadBoards();
+  }, [loadBoards]);
+
+  const handleCreateBoard = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = normalizeBoardName(newBoardName);
+    if (!session?.user?.id || !name || creating) return;
+    setCreating(true);
+    setError(null);
+    try {
+      const board = await createBoard(supabase, session.user.id, name, getNextBoardPosition(boards));
+      setBoards(prev => [...prev, board]);
+      setNewBoardName('');
+    } catch (err) {
+      setError(`Could not create board: ${(err as Error).message || 'Unknown error'}`);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const startRename = (board: Board) => {
+    setEditingBoardId(board.id);
+    setEditingName(board.name);
+  };
+
+  const handleRename = async (e: React.FormEvent, board: Board) => {
+    e.preventDefault();
+    if (!session?.user?.id) return;
+    const name = normalizeBoardName(editingName);
+    if (!name || name === board.name) {
+      setEditingBoardId(null);
+      return;
+    }
+    setBusyBoardId(board.id);
+    setError(null);
+    try {
+      await renameBoard(supabase, session.user.id, board.id, name);
+      setBoards(prev => prev.map(existing => (existing.id === board.id ? { ...existing, name } : existing)));
+      setEditingBoardId(null);
+    } catch (err) {
+      setError(`Could not rename "${board.name}": ${(err as Error).message || 'Unknown error'}`);
+    } finally {
+      setBusyBoardId(null);
+    }
+  };
+
+  // Swaps a board with its neighbour, rolling back if the new order can't be saved
+  const moveBoard = async (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= boards.length || busyBoardId || !session?.user?.id) return;
+    const previous = boards;
+    const reordered = [...boards];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setBoards(reordered.map((board, position) => ({ ...board, position })));
+    setBusyBoardId(boards[index].id);
+    setError(null);
+    try {
+      await saveBoardOrder(supabase, session.user.id, reordered.map(board => board.id));
+    } catch (err) {
+      setBoards(previous);
+      setError(`Could not save the new order: ${(err as Error).message || 'Unknown error'}`);
+    } finally {
+      setBusyBoardId(null);
+    }
+  };
+
+  const handleDelete = async (board: Board) => {
+    if (!session?.user?.id || !window.confirm(`Delete "${board.name}"? The buildings stay in your likes.`)) return;
+    setBusyBoardId(board.id);
+    setError(null);
+    try {
+      await deleteBoard(supabase, session.user.id, board.id);
+      setBoards(prev => prev.filter(existing => existing.id !== board.id));
+    } catch (err) {
+      setError(`Could not delete "${board.name}": ${(err as Error).message || 'Unknown error'}`);
+    } finally {
+      setBusyBoardId(null);
+    }
+  };
+
+  if (isLoadingAuth || !session) return null;
+
+  const iconButtonClasses = "p-2 rounded-full text-gray-500 hover:bg-pink-50 hover:text-pink-600 disabled:opacity-30 disabled:cursor-not-allowed focus:outline-none focus-visible:ring-2 focus-visible:ring-pink-300";
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-pink-50 via-rose-50 to-fuchsia-50 text-slate-700">
+      <header className="sticky top-0 z-50 bg-white/80 backdrop-blur-md shadow-sm">
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-4">
+            <Link href="/" className="text-3xl font-bold text-[rgb(var(--primary-rgb))]">ArchiSwipe</Link>
+            <nav className="flex space-x-3 items-center">
+              <Link href="/swipe" className={navLinkSecondary}>
+                <CompassIcon size={18} className="inline mr-1" /> Swipe
+              </Link>
+              <Link href="/profile" className={navLinkSecondary}>
+                <UserIcon size={18} className="inline mr-1" /> Profile
+              </Link>
+            </nav>
+          </div>
+        </div>
+      </header>
+
+      <section className="max-w-3xl mx-auto px-4 py-8 sm:py-12">
+        <h1 className="text-3xl font-bold text-slate-800 mb-2 flex items-center">
+          <FolderHeartIcon size={28} className="mr-2 text-pink-600" /> Your Boards
+        </h1>
+        <p className="text-sm text-slate-500 mb-8">Group the buildings you like by project. Use the arrows to change the order.</p>
+
+        {error && <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700 whitespace-pre-wrap">{error}</div>}
+
+        <form onSubmit={handleCreateBoard} className="flex items-center gap-3 mb-8">
+          <label htmlFor="new-board-name" className="sr-only">New board name</label>
+          <input
+            id="new-board-name"
+            type="text"
+            value={newBoardName}
+            onChange={e => setNewBoardName(e.target.value)}
+            maxLength={MAX_BOARD_NAME_LENGTH}
+            placeholder="New board, e.g. Kitchen extension"
+            className="flex-grow px-4 py-2.5 border border-gray-300 rounded-lg bg-white text-sm focus:ring-pink-500 focus:border-pink-500"
+          />
+          <button
+            type="submit"
+            disabled={creating || !normalizeBoardName(newBoardName)}
+            className="px-5 py-2.5 bg-pink-600 text-white rounded-full font-semibold shadow-md text-sm flex items-center hover:bg-pink-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <PlusIcon size={16} className="mr-1" /> {creating ? 'Creating...' : 'Create'}
+          </button>
+        </form>
+
+        {loading ? (
+          <p className="text-gray-500 italic text-sm">Loading boards...</p>
+        ) : boards.length === 0 ? (
+          <p className="text-gray-500 italic text-sm bg-white p-4 rounded-lg shadow-sm border">
+            No boards yet. Create one above, or save a building to a new board after liking it.
+          </p>
+        ) : (
+          <ol className="space-y-3">
+            {boards.map((board, index) => (
+              <li key={board.id} className="bg-white rounded-xl p-4 border border-gray-200 shadow-sm flex items-center gap-3">
+                <div className="flex flex-col">
+                  <button type="button" onClick={() => moveBoard(index, -1)} disabled={index === 0 || busyBoardId !== null} aria-label={`Move ${board.name} up`} className={iconButtonClasses}>
+                    <ArrowUpIcon aria-hidden="true" size={16} />
+                  </button>
+                  <button type="button" onClick={() => moveBoard(index, 1)} disabled={index === boards.length - 1 || busyBoardId !== null} aria-label={`Move ${board.name} down`} className={iconButtonClasses}>
+                    <ArrowDownIcon aria-hidden="true" size={16} />
+                  </button>
+                </div>
+                <div className="flex-grow min-w-0">
+                  {editingBoardId === board.id ? (
+                    <form onSubmit={e => handleRename(e, board)} className="flex items-center gap-2">
+                      <label htmlFor={`rename-${board.id}`} className="sr-only">Board name</label>
+                      <input
+                        id={`rename-${board.id}`}
+                        type="text"
+                        value={editingName}
+                        onChange={e => setEditingName(e.target.value)}
+                        onKeyDown={e => e.key === 'Escape' && setEditingBoardId(null)}
+                        maxLength={MAX_BOARD_NAME_LENGTH}
+                        autoFocus
+                        className="flex-grow min-w-0 px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-pink-500 focus:border-pink-500"
+                      />
+                      <button type="submit" disabled={busyBoardId === board.id} className="px-3 py-1.5 bg-green-500 text-white rounded-full text-sm font-semibold hover:bg-green-600 disabled:opacity-60">Save</button>
+                      <button type="button" onClick={() => setEditingBoardId(null)} className="px-3 py-1.5 text-gray-500 text-sm hover:text-gray-800">Cancel</button>
+                    </form>
+                  ) : (
+                    <Link href={`/boards/${board.id}`} className="block group">
+                      <span className="block font-semibold text-slate-800 truncate group-hover:text-pink-600">{board.name}</span>
+                      <span className="block text-xs text-gray-500">{board.image_count} {board.image_count === 1 ? 'building' : 'buildings'}</span>
+                    </Link>
+                  )}
+                </div>
+                {editingBoardId !== board.id && (
+                  <div className="flex items-center">
+                    <button type="button" onClick={() => startRename(board)} aria-label={`Rename ${board.name}`} className={iconButtonClasses}>
+                      <EditIcon aria-hidden="true" size={16} />
+                    </button>
+                    <button type="button" onClick={() => handleDelete(board)} disabled={busyBoardId !== null} aria-label={`Delete ${board.name}`} className={iconButtonClasses}>
+                      <TrashIcon aria-hidden="true" size={16} />
+                    </button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,29 @@
+// src/app/lib/accountDeletion.ts
+import type { Session } from '@supabase/supabase-js';
+
+// Days between requesting deletion and the account actually being purged
+export const ACCOUNT_DELETION_GRACE_DAYS = 14;
+
+export interface AccountDeletion {
+  requested_at: string;
+  scheduled_for: string;
+}
+
+const ACCOUNT_DELETION_ENDPOINT = '/api/account/deletion';
+
+const callAccountDeletionEndpoint = async (session: Session, method: 'GET' | 'POST' | 'DELETE'): Promise<AccountDeletion | null> => {
+  const response = await fetch(ACCOUNT_DELETION_ENDPOINT, {
+    method,
+    headers: { Authorization: `Bearer ${session.access_token}` },
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(body.error || `Request failed with status ${response.status}`);
+  return body.deletion ?? null;
+};
+
+// The pending deletion for the signed-in user, or null if none is scheduled
+export const fetchAccountDeletion = (session: Session) => callAccountDeletionEndpoint(session, 'GET');
+
+export const requestAccountDeletion = (session: Session) => callAccountDeletionEndpoint(session, 'POST');
+
+export const cancelAccountDeletion = (session: Session) => callAccountDeletionEndpoint(session, 'DELETE');
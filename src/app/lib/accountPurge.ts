@@ -0,0 +1,57 @@
+// src/app/lib/accountPurge.ts
+// Server-only: expects a service role client from createSupabaseAdminClient.
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+const AVATAR_LIST_PAGE_SIZE = 100;
+
+const removeAvatarFolder = async (admin: SupabaseClient, userId: string) => {
+  // Removing shifts the listing, so keep taking the first page until the folder is empty
+  for (;;) {
+    const { data: files, error: listError } = await admin.storage.from('avatars').list(userId, { limit: AVATAR_LIST_PAGE_SIZE });
+    if (listError) throw listError;
+    if (!files || files.length === 0) return;
+    const { error: removeError } = await admin.storage.from('avatars').remove(files.map(file => `${userId}/${file.name}`));
+    if (removeError) throw removeError;
+    if (files.length < AVATAR_LIST_PAGE_SIZE) return;
+  }
+};
+
+const deleteRows = async (admin: SupabaseClient, table: string, column: string, value: string) => {
+  const { error } = await admin.from(table).delete().eq(column, value);
+  if (error) throw new Error(`Could not delete from ${table}: ${error.message}`);
+};
+
+// For tables that link two users, e.g. an invite's sender and the person who accepted it
+const deleteRowsForEither = async (admin: SupabaseClient, table: string, columns: [string, string], userId: string) => {
+  const { error } = await admin.from(table).delete().or(`${columns[0]}.eq.${userId},${columns[1]}.eq.${userId}`);
+  if (error) throw new Error(`Could not delete from ${table}: ${error.message}`);
+};
+
+/**
+ * Permanently removes a user: their swipes, swipe sessions, broken image reports, boards, invites and
+ * connections, profile row, avatar files and finally the auth user itself. The deletion request is
+ * cleared last so a failed purge is retried on the next run. buildDataExport covers the same tables.
+ */
+export const purgeAccount = async (admin: SupabaseClient, userId: string) => {
+  await deleteRows(admin, 'swipes', 'user_id', userId);
+  await deleteRows(admin, 'swipe_sessions', 'user_id', userId);
+  await deleteRows(admin, 'broken_image_reports', 'user_id', userId);
+
+  const { data: boards, error: boardsError } = await admin.from('boards').select('id').eq('user_id', userId);
+  if (boardsError) throw boardsError;
+  if (boards && boards.length > 0) {
+    const { error: boardImagesError } = await admin.from('board_images').delete().in('board_id', boards.map(board => board.id));
+    if (boardImagesError) throw new Error(`Could not delete from board_images: ${boardImagesError.message}`);
+  }
+  await deleteRows(admin, 'boards', 'user_id', userId);
+  await deleteRowsForEither(admin, 'compatibility_invites', ['inviter_id', 'accepted_by'], userId);
+  await deleteRowsForEither(admin, 'taste_connections', ['user_a', 'user_b'], userId);
+  await deleteRows(admin, 'profiles', 'id', userId);
+  await removeAvatarFolder(admin, userId);
+
+  const { error: authError } = await admin.auth.admin.deleteUser(userId);
+  // Already gone means an earlier run got this far before failing
+  if (authError && authError.status !== 404) throw authError;
+
+  await deleteRows(admin, 'account_deletion_requests', 'user_id', userId);
+};
@@ -0,0 +1,104 @@
+// src/app/lib/adminImages.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { HOUSE_IMAGES_BUCKET } from '@/app/lib/houseImages';
+
+export const MAX_IMAGE_UPLOAD_BYTES = 15 * 1024 * 1024;
+
+export interface StyleOption {
+  id: number;
+  name: string;
+}
+
+export interface AdminImage {
+  id: number;
+  storage_path: string;
+  description: string | null;
+  style_id: number | null;
+  architect: string | null;
+  year_built: number | null;
+  location: string | null;
+  // Retired images stay in the database (and in everyone's history) but get_unseen_images skips them
+  is_retired: boolean;
+  created_at: string;
+  styles: { name: string } | null;
+}
+
+export type ImageDetailsUpdate = Partial<Pick<AdminImage, 'description' | 'style_id' | 'architect' | 'year_built' | 'location'>>;
+
+export type ImageStatusFilter = 'active' | 'retired' | 'all';
+
+export interface AdminImageQuery {
+  styleId: number | null;
+  status: ImageStatusFilter;
+  search: string;
+  offset: number;
+  limit: number;
+}
+
+const ADMIN_IMAGE_COLUMNS = 'id, storage_path, description, style_id, architect, year_built, location, is_retired, created_at, styles(name)';
+
+export const fetchStyleOptions = async (supabase: SupabaseClient): Promise<StyleOption[]> => {
+  const { data, error } = await supabase.from('styles').select('id, name').order('name', { ascending: true });
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchAdminImages = async (supabase: SupabaseClient, query: AdminImageQuery): Promise<{ images: AdminImage[]; total: number }> => {
+  let request = supabase.from('images').select(ADMIN_IMAGE_COLUMNS, { count: 'exact' });
+  if (query.styleId !== null) request = request.eq('style_id', query.styleId);
+  if (query.status !== 'all') request = request.eq('is_retired', query.status === 'retired');
+  const search = query.search.trim();
+  if (search) {
+    // Commas and parentheses would break the or() filter syntax
+    const term = `%${search.replace(/[,()]/g, ' ')}%`;
+    request = request.or(`description.ilike.${term},architect.ilike.${term},location.ilike.${term}`);
+  }
+  const { data, error, count } = await request
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .range(query.offset, query.offset + query.limit - 1);
+  if (error) throw error;
+  return { images: (data || []) as unknown as AdminImage[], total: count || 0 };
+};
+
+// Returns a message if the file shouldn't be uploaded to the image library
+export const validateImageUpload = (file: File): string | null => {
+  if (!file.type.startsWith('image/')) return 'Not an image file.';
+  if (file.size > MAX_IMAGE_UPLOAD_BYTES) return `Larger than ${MAX_IMAGE_UPLOAD_BYTES / (1024 * 1024)} MB.`;
+  return null;
+};
+
+const toPathSegment = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9.]+/g, '-').replace(/^-+|-+$/g, '') || 'image';
+
+/**
+ * Uploads one file to the image bucket under a folder named after its style and creates the matching
+ * images row. If the row can't be created the uploaded file is removed again.
+ */
+export const uploadLibraryImage = async (supabase: SupabaseClient, file: File, style: StyleOption): Promise<AdminImage> => {
+  const storagePath = `${toPathSegment(style.name)}/${Date.now()}-${toPathSegment(file.name)}`;
+  const { error: uploadError } = await supabase.storage.from(HOUSE_IMAGES_BUCKET).upload(storagePath, file, { contentType: file.type });
+  if (uploadError) throw uploadError;
+
+  const { data, error: insertError } = await supabase
+    .from('images')
+    .insert({ storage_path: storagePath, style_id: style.id, is_retired: false })
+    .select(ADMIN_IMAGE_COLUMNS)
+    .single();
+  if (insertError) {
+    await supabase.storage.from(HOUSE_IMAGES_BUCKET).remove([storagePath]);
+    throw insertError;
+  }
+  return data as unknown as AdminImage;
+};
+
+export const updateImageDetails = async (supabase: SupabaseClient, imageId: number, update: ImageDetailsUpdate): Promise<AdminImage> => {
+  const { data, error } = await supabase.from('images').update(update).eq('id', imageId).select(ADMIN_IMAGE_COLUMNS).single();
+  if (error) throw error;
+  return data as unknown as AdminImage;
+};
+
+export const setImageRetired = async (supabase: SupabaseClient, imageId: number, isRetired: boolean) => {
+  const { error } = await supabase.from('images').update({ is_retired: isRetired }).eq('id', imageId);
+  if (error) throw error;
+};
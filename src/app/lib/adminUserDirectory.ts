@@ -0,0 +1,87 @@
+// src/app/lib/adminUserDirectory.ts
+// Server-only: expects a service role client from createSupabaseAdminClient.
+import type { SupabaseClient, User } from '@supabase/supabase-js';
+import { ADMIN_USERS_PAGE_SIZE, AdminUserPage, AdminUserSummary } from '@/app/lib/adminUsers';
+
+// The admin API returns banned_until but the client library's User type doesn't declare it
+type AuthUser = User & { banned_until?: string | null };
+
+interface SwipeStatsRow {
+  user_id: string;
+  total_swipes: number;
+  last_swipe_at: string | null;
+}
+
+const AUTH_USERS_PAGE_SIZE = 1000;
+
+// Suspending bans the user for a century, which GoTrue treats as indefinite
+export const SUSPENSION_BAN_DURATION = '876000h';
+
+const listAllAuthUsers = async (admin: SupabaseClient): Promise<AuthUser[]> => {
+  const users: AuthUser[] = [];
+  for (let page = 1; ; page++) {
+    const { data, error } = await admin.auth.admin.listUsers({ page, perPage: AUTH_USERS_PAGE_SIZE });
+    if (error) throw error;
+    users.push(...(data.users as AuthUser[]));
+    if (data.users.length < AUTH_USERS_PAGE_SIZE) return users;
+  }
+};
+
+const isSuspended = (user: AuthUser) => !!user.banned_until && new Date(user.banned_until) > new Date();
+
+// Adds profile names and swipe stats to a page of auth users
+const toSummaries = async (admin: SupabaseClient, users: AuthUser[]): Promise<AdminUserSummary[]> => {
+  if (users.length === 0) return [];
+  const ids = users.map(user => user.id);
+  const [profilesResult, statsResult] = await Promise.all([
+    admin.from('profiles').select('id, username, full_name').in('id', ids),
+    admin.rpc('admin_get_user_swipe_stats', { user_ids_param: ids }),
+  ]);
+  if (profilesResult.error) throw profilesResult.error;
+  if (statsResult.error) throw statsResult.error;
+  const profiles = new Map((profilesResult.data || []).map(profile => [profile.id as string, profile]));
+  const stats = new Map(((statsResult.data || []) as SwipeStatsRow[]).map(row => [row.user_id, row]));
+
+  return users.map(user => ({
+    id: user.id,
+    email: user.email || null,
+    username: profiles.get(user.id)?.username || null,
+    full_name: profiles.get(user.id)?.full_name || null,
+    created_at: user.created_at,
+    last_sign_in_at: user.last_sign_in_at || null,
+    last_swipe_at: stats.get(user.id)?.last_swipe_at || null,
+    total_swipes: stats.get(user.id)?.total_swipes || 0,
+    roles: user.app_metadata?.roles || [],
+    is_suspended: isSuspended(user),
+  }));
+};
+
+/**
+ * Newest users first, optionally filtered by a search term matched against email, username and full name.
+ * Auth users can't be searched server-side, so the full list is loaded and filtered here.
+ */
+export const searchAdminUsers = async (admin: SupabaseClient, search: string, page: number): Promise<AdminUserPage> => {
+  let users = await listAllAuthUsers(admin);
+  const term = search.trim().toLowerCase();
+  if (term) {
+    // Commas and parentheses would break the or() filter syntax
+    const pattern = `%${term.replace(/[,()]/g, ' ')}%`;
+    const { data: matchingProfiles, error } = await admin
+      .from('profiles')
+      .select('id')
+      .or(`username.ilike.${pattern},full_name.ilike.${pattern}`);
+    if (error) throw error;
+    const profileMatches = new Set((matchingProfiles || []).map(profile => profile.id as string));
+    users = users.filter(user => user.email?.toLowerCase().includes(term) || profileMatches.has(user.id));
+  }
+  users.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+  const pageUsers = users.slice(page * ADMIN_USERS_PAGE_SIZE, (page + 1) * ADMIN_USERS_PAGE_SIZE);
+  return { users: await toSummaries(admin, pageUsers), total: users.length };
+};
+
+export const getAdminUserSummary = async (admin: SupabaseClient, userId: string): Promise<AdminUserSummary> => {
+  const { data, error } = await admin.auth.admin.getUserById(userId);
+  if (error) throw error;
+  const [summary] = await toSummaries(admin, [data.user as AuthUser]);
+  return summary;
+};
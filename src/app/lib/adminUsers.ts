@@ -0,0 +1,60 @@
+// src/app/lib/adminUsers.ts
+import type { Session } from '@supabase/supabase-js';
+
+// Roles an admin can grant from /admin/users; stored in auth app_metadata.roles
+export const ASSIGNABLE_ROLES = ['admin'] as const;
+export type AssignableRole = typeof ASSIGNABLE_ROLES[number];
+
+export const ADMIN_USERS_PAGE_SIZE = 25;
+
+export interface AdminUserSummary {
+  id: string;
+  email: string | null;
+  username: string | null;
+  full_name: string | null;
+  created_at: string;
+  last_sign_in_at: string | null;
+  last_swipe_at: string | null;
+  total_swipes: number;
+  roles: string[];
+  is_suspended: boolean;
+}
+
+export interface AdminUserPage {
+  users: AdminUserSummary[];
+  total: number;
+}
+
+// Exactly one of these is applied per request
+export type AdminUserChange = { roles: string[] } | { suspended: boolean };
+
+const ADMIN_USERS_ENDPOINT = '/api/admin/users';
+
+const callAdminUsersEndpoint = async <T>(session: Session, path: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(`${ADMIN_USERS_ENDPOINT}${path}`, {
+    ...init,
+    headers: { ...init?.headers, Authorization: `Bearer ${session.access_token}` },
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(body.error || `Request failed with status ${response.status}`);
+  return body as T;
+};
+
+export const fetchAdminUsers = (session: Session, search: string, page: number) =>
+  callAdminUsersEndpoint<AdminUserPage>(session, `?${new URLSearchParams({ search, page: page.toString() })}`);
+
+export const updateAdminUser = async (session: Session, userId: string, change: AdminUserChange): Promise<AdminUserSummary> => {
+  const body = await callAdminUsersEndpoint<{ user: AdminUserSummary }>(session, `/${encodeURIComponent(userId)}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(change),
+  });
+  return body.user;
+};
+
+// Last time we know the user did anything: signing in or swiping
+export const getLastActivity = (user: AdminUserSummary): string | null => {
+  const times = [user.last_sign_in_at, user.last_swipe_at].filter((time): time is string => !!time);
+  if (times.length === 0) return null;
+  return times.reduce((latest, time) => (new Date(time) > new Date(latest) ? time : latest));
+};
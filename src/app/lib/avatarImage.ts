@@ -0,0 +1,79 @@
+// src/app/lib/avatarImage.ts
+
+// Uploaded avatars are always AVATAR_SIZE x AVATAR_SIZE WebP, or JPEG where the browser can't encode WebP (Safari)
+export const AVATAR_SIZE = 512;
+export const MAX_AVATAR_FILE_BYTES = 10 * 1024 * 1024;
+const AVATAR_QUALITY = 0.85;
+
+const AVATAR_FILE_EXTENSIONS: Record<string, string> = { 'image/webp': 'webp', 'image/jpeg': 'jpg' };
+
+// File extension for a blob from renderAvatar
+export const getAvatarFileExtension = (avatar: Blob): string => AVATAR_FILE_EXTENSIONS[avatar.type] || 'jpg';
+
+// Formats every current browser can decode into a canvas
+const ACCEPTED_AVATAR_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/avif'];
+
+// A square region of the source image, in its natural pixels
+export interface AvatarCrop {
+  x: number;
+  y: number;
+  size: number;
+}
+
+// Returns a message for the user if the file can't be used as an avatar
+export const validateAvatarFile = (file: File): string | null => {
+  if (!file.type.startsWith('image/')) {
+    return `"${file.name}" isn't an image. Choose a JPEG, PNG, WebP, GIF or AVIF file.`;
+  }
+  if (!ACCEPTED_AVATAR_TYPES.includes(file.type)) {
+    return `${file.type.replace('image/', '').toUpperCase()} images aren't supported. Choose a JPEG, PNG, WebP, GIF or AVIF file.`;
+  }
+  if (file.size > MAX_AVATAR_FILE_BYTES) {
+    const sizeMb = (file.size / (1024 * 1024)).toFixed(1);
+    return `That image is ${sizeMb} MB. Avatars can be at most ${MAX_AVATAR_FILE_BYTES / (1024 * 1024)} MB.`;
+  }
+  return null;
+};
+
+export const loadImageFile = (file: File): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(`"${file.name}" couldn't be read as an image. It may be damaged.`));
+    };
+    image.src = url;
+  });
+
+// Draws the crop onto an AVATAR_SIZE canvas (downscaling, never upscaling past the source) and encodes WebP or JPEG
+export const renderAvatar = (image: HTMLImageElement, crop: AvatarCrop): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const outputSize = Math.min(AVATAR_SIZE, Math.round(crop.size));
+    const canvas = document.createElement('canvas');
+    canvas.width = outputSize;
+    canvas.height = outputSize;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      reject(new Error('Your browser could not prepare the image.'));
+      return;
+    }
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(image, crop.x, crop.y, crop.size, crop.size, 0, 0, outputSize, outputSize);
+    const encodeJpeg = () => canvas.toBlob(blob => {
+      if (!blob || blob.type !== 'image/jpeg') {
+        reject(new Error('Your browser could not save the cropped image. Try a recent version of Chrome, Firefox or Edge.'));
+        return;
+      }
+      resolve(blob);
+    }, 'image/jpeg', AVATAR_QUALITY);
+    canvas.toBlob(blob => {
+      // Browsers without a WebP encoder silently fall back to PNG, which would be far larger than a JPEG
+      if (blob && blob.type === 'image/webp') resolve(blob);
+      else encodeJpeg();
+    }, 'image/webp', AVATAR_QUALITY);
+  });
@@ -0,0 +1,128 @@
+// src/app/lib/boards.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// A named collection of liked buildings; rows in the `boards` table
+export interface Board {
+  id: string;
+  name: string;
+  // Order on the boards page, lowest first
+  position: number;
+  created_at: string;
+  // Number of linked `board_images` rows
+  image_count: number;
+}
+
+export interface BoardImage {
+  image_id: number;
+  added_at: string;
+  images: {
+    storage_path: string;
+    description: string | null;
+    styles: { name: string } | null;
+  };
+}
+
+export const MAX_BOARD_NAME_LENGTH = 60;
+
+export const normalizeBoardName = (name: string): string => name.trim().replace(/\s+/g, ' ');
+
+export const fetchBoards = async (supabase: SupabaseClient, userId: string): Promise<Board[]> => {
+  const { data, error } = await supabase
+    .from('boards')
+    .select('id, name, position, created_at, board_images(count)')
+    .eq('user_id', userId)
+    .order('position', { ascending: true });
+  if (error) throw error;
+  return (data || []).map(({ board_images, ...board }) => ({
+    ...board,
+    image_count: (board_images as { count: number }[])[0]?.count ?? 0,
+  }));
+};
+
+export const fetchBoard = async (supabase: SupabaseClient, userId: string, boardId: string): Promise<Board | null> => {
+  const { data, error } = await supabase
+    .from('boards')
+    .select('id, name, position, created_at, board_images(count)')
+    .eq('user_id', userId)
+    .eq('id', boardId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) return null;
+  const { board_images, ...board } = data;
+  return { ...board, image_count: (board_images as { count: number }[])[0]?.count ?? 0 };
+};
+
+// Positions can have gaps after a delete, so the end of the list is after the highest one rather than at boards.length
+export const getNextBoardPosition = (boards: Pick<Board, 'position'>[]): number =>
+  boards.reduce((max, board) => Math.max(max, board.position + 1), 0);
+
+// New boards go to the end of the list
+export const createBoard = async (supabase: SupabaseClient, userId: string, name: string, position: number): Promise<Board> => {
+  const { data, error } = await supabase
+    .from('boards')
+    .insert({ user_id: userId, name: normalizeBoardName(name), position })
+    .select('id, name, position, created_at')
+    .single();
+  if (error) throw error;
+  return { ...data, image_count: 0 };
+};
+
+export const renameBoard = async (supabase: SupabaseClient, userId: string, boardId: string, name: string) => {
+  const { error } = await supabase.from('boards').update({ name: normalizeBoardName(name) }).eq('user_id', userId).eq('id', boardId);
+  if (error) throw error;
+};
+
+export const deleteBoard = async (supabase: SupabaseClient, userId: string, boardId: string) => {
+  const { error } = await supabase.from('boards').delete().eq('user_id', userId).eq('id', boardId);
+  if (error) throw error;
+};
+
+// Persists the given order by rewriting each board's position
+export const saveBoardOrder = async (supabase: SupabaseClient, userId: string, orderedBoardIds: string[]) => {
+  const results = await Promise.all(
+    orderedBoardIds.map((id, position) => supabase.from('boards').update({ position }).eq('user_id', userId).eq('id', id))
+  );
+  const failed = results.find(result => result.error);
+  if (failed?.error) throw failed.error;
+};
+
+export const fetchBoardImages = async (supabase: SupabaseClient, boardId: string): Promise<BoardImage[]> => {
+  const { data, error } = await supabase
+    .from('board_images')
+    .select('image_id, added_at, images!inner(storage_path, description, styles(name))')
+    .eq('board_id', boardId)
+    .order('added_at', { ascending: false });
+  if (error) throw error;
+  return (data || []) as unknown as BoardImage[];
+};
+
+// Ids of the user's boards that already hold this image
+export const fetchBoardIdsForImage = async (supabase: SupabaseClient, userId: string, imageId: number): Promise<Set<string>> => {
+  const { data, error } = await supabase
+    .from('board_images')
+    .select('board_id, boards!inner(user_id)')
+    .eq('image_id', imageId)
+    .eq('boards.user_id', userId);
+  if (error) throw error;
+  return new Set((data || []).map((row: { board_id: string }) => row.board_id));
+};
+
+export const addImageToBoard = async (supabase: SupabaseClient, boardId: string, imageId: number) => {
+  const { error } = await supabase
+    .from('board_images')
+    .upsert({ board_id: boardId, image_id: imageId }, { onConflict: 'board_id,image_id', ignoreDuplicates: true });
+  if (error) throw error;
+};
+
+// Used when a like is retracted, so the building doesn't stay pinned on boards the user has moved on from
+export const removeImageFromAllBoards = async (supabase: SupabaseClient, userId: string, imageId: number) => {
+  const boardIds = await fetchBoardIdsForImage(supabase, userId, imageId);
+  if (boardIds.size === 0) return;
+  const { error } = await supabase.from('board_images').delete().eq('image_id', imageId).in('board_id', Array.from(boardIds));
+  if (error) throw error;
+};
+
+export const removeImageFromBoard = async (supabase: SupabaseClient, boardId: string, imageId: number) => {
+  const { error } = await supabase.from('board_images').delete().eq('board_id', boardId).eq('image_id', imageId);
+  if (error) throw error;
+};
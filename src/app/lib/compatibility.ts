@@ -0,0 +1,152 @@
+// src/app/lib/compatibility.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { StyleAffinity } from '@/app/lib/deckRanking';
+import { buildTasteProfile } from '@/app/lib/tasteProfile';
+
+// Someone the user is connected to through an accepted invite
+export interface TasteConnection {
+  username: string;
+  full_name: string | null;
+  avatar_url: string | null;
+  connected_at: string;
+}
+
+// An image both users have swiped, with each verdict
+export interface CommonSwipe {
+  image_id: number;
+  storage_path: string;
+  style_name: string | null;
+  my_direction: boolean;
+  my_super_like: boolean;
+  their_direction: boolean;
+  their_super_like: boolean;
+}
+
+// What get_taste_comparison returns for a connected pair
+export interface TasteComparison {
+  other: { username: string; full_name: string | null; avatar_url: string | null };
+  my_style_ratios: StyleAffinity[];
+  their_style_ratios: StyleAffinity[];
+  common_swipes: CommonSwipe[];
+}
+
+export interface StyleGap {
+  styleName: string;
+  myAffinity: number;
+  theirAffinity: number;
+}
+
+export interface CompatibilityResult {
+  // 0-100
+  score: number;
+  // Share of commonly-seen images both users gave the same verdict, or null if there are none
+  imageAgreement: number | null;
+  commonImageCount: number;
+  sharedStyleCount: number;
+  isLowConfidence: boolean;
+  sharedLoves: CommonSwipe[];
+  disagreements: CommonSwipe[];
+  styleGaps: StyleGap[];
+}
+
+// Common images needed before verdict agreement outweighs style similarity
+const IMAGE_AGREEMENT_PRIOR = 20;
+const MIN_CONFIDENT_COMMON_IMAGES = 10;
+const MIN_CONFIDENT_SHARED_STYLES = 3;
+const COMPARISON_LIST_LIMIT = 12;
+const STYLE_GAP_LIMIT = 5;
+
+const INVITE_STORAGE_KEY = 'archiswipe:pending-invite';
+
+// Cosine similarity of two affinity vectors, mapped from [-1, 1] to [0, 1]
+const getStyleSimilarity = (mine: number[], theirs: number[]): number => {
+  const dot = mine.reduce((sum, value, i) => sum + value * theirs[i], 0);
+  const magnitude = Math.hypot(...mine) * Math.hypot(...theirs);
+  return magnitude > 0 ? (dot / magnitude + 1) / 2 : 0.5;
+};
+
+// Super-likes make a shared love or a disagreement stand out more
+const verdictStrength = (swipe: CommonSwipe) => Number(swipe.my_super_like) + Number(swipe.their_super_like);
+
+/**
+ * Blends how often two users agreed on the same images with how alike their style affinities
+ * are. Verdict agreement is the stronger signal, so it takes over as common images pile up.
+ */
+export const computeCompatibility = (comparison: TasteComparison): CompatibilityResult => {
+  const common = comparison.common_swipes;
+  const agreed = common.filter(swipe => swipe.my_direction === swipe.their_direction);
+  const imageAgreement = common.length > 0 ? agreed.length / common.length : null;
+
+  const theirAffinities = new Map(
+    buildTasteProfile(comparison.their_style_ratios).affinities.map(score => [score.styleName, score.affinity])
+  );
+  const sharedStyles = buildTasteProfile(comparison.my_style_ratios).affinities
+    .filter(score => theirAffinities.has(score.styleName))
+    .map(score => ({ styleName: score.styleName, myAffinity: score.affinity, theirAffinity: theirAffinities.get(score.styleName)! }));
+  const styleSimilarity = getStyleSimilarity(
+    sharedStyles.map(style => style.myAffinity),
+    sharedStyles.map(style => style.theirAffinity)
+  );
+
+  const imageWeight = common.length / (common.length + IMAGE_AGREEMENT_PRIOR);
+  const blended = imageWeight * (imageAgreement ?? 0) + (1 - imageWeight) * styleSimilarity;
+
+  return {
+    score: Math.round(blended * 100),
+    imageAgreement,
+    commonImageCount: common.length,
+    sharedStyleCount: sharedStyles.length,
+    isLowConfidence: common.length < MIN_CONFIDENT_COMMON_IMAGES && sharedStyles.length < MIN_CONFIDENT_SHARED_STYLES,
+    sharedLoves: agreed
+      .filter(swipe => swipe.my_direction)
+      .sort((a, b) => verdictStrength(b) - verdictStrength(a))
+      .slice(0, COMPARISON_LIST_LIMIT),
+    disagreements: common
+      .filter(swipe => swipe.my_direction !== swipe.their_direction)
+      .sort((a, b) => verdictStrength(b) - verdictStrength(a))
+      .slice(0, COMPARISON_LIST_LIMIT),
+    styleGaps: [...sharedStyles]
+      .sort((a, b) => Math.abs(b.myAffinity - b.theirAffinity) - Math.abs(a.myAffinity - a.theirAffinity))
+      .slice(0, STYLE_GAP_LIMIT),
+  };
+};
+
+export const fetchTasteConnections = async (supabase: SupabaseClient): Promise<TasteConnection[]> => {
+  const { data, error } = await supabase.rpc('get_taste_connections');
+  if (error) throw error;
+  return (data || []) as TasteConnection[];
+};
+
+// Resolves to null unless the two users are connected
+export const fetchTasteComparison = async (supabase: SupabaseClient, otherUsername: string): Promise<TasteComparison | null> => {
+  const { data, error } = await supabase.rpc('get_taste_comparison', { other_username_param: otherUsername });
+  if (error) throw error;
+  return (data as TasteComparison | null) ?? null;
+};
+
+export const createCompatibilityInvite = async (supabase: SupabaseClient, userId: string): Promise<string> => {
+  const code = crypto.randomUUID();
+  const { error } = await supabase.from('compatibility_invites').insert({ code, inviter_id: userId });
+  if (error) throw error;
+  return code;
+};
+
+// Connects the current user to the inviter; resolves with the inviter's username
+export const acceptCompatibilityInvite = async (supabase: SupabaseClient, code: string): Promise<string> => {
+  const { data, error } = await supabase.rpc('accept_compatibility_invite', { code_param: code });
+  if (error) throw error;
+  return data as string;
+};
+
+// An invite opened while signed out is kept here until the visitor has an account
+export const stashPendingInvite = (code: string) => {
+  if (typeof window === 'undefined') return;
+  window.localStorage.setItem(INVITE_STORAGE_KEY, code);
+};
+
+export const takePendingInvite = (): string | null => {
+  if (typeof window === 'undefined') return null;
+  const code = window.localStorage.getItem(INVITE_STORAGE_KEY);
+  if (code) window.localStorage.removeItem(INVITE_STORAGE_KEY);
+  return code;
+};
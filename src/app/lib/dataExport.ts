@@ -0,0 +1,143 @@
+// src/app/lib/dataExport.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createZip, ZipEntry } from '@/app/lib/zip';
+
+// A `swipes` row as exported: every column plus the style name of the image
+type ExportedSwipe = Record<string, unknown> & { style_name: string | null };
+
+export type ExportProgress = 'profile' | 'swipes' | 'activity' | 'avatar' | 'packaging';
+
+const SWIPE_PAGE_SIZE = 1000;
+
+// Columns listed first in swipes.csv; any other columns follow in the order they arrive
+const LEADING_SWIPE_COLUMNS = ['id', 'image_id', 'style_name', 'direction', 'is_super_like', 'created_at', 'time_spent_on_card_ms'];
+
+const escapeCsvValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: Record<string, unknown>[], leadingColumns: string[] = []): string => {
+  const columns = [...leadingColumns];
+  rows.forEach(row => Object.keys(row).forEach(key => {
+    if (!columns.includes(key)) columns.push(key);
+  }));
+  const lines = [columns.join(','), ...rows.map(row => columns.map(column => escapeCsvValue(row[column])).join(','))];
+  return lines.join('\r\n');
+};
+
+// Rows the user owns outright or, given two columns, shares with another user (invites, connections)
+const fetchUserRows = async (supabase: SupabaseClient, table: string, select: string, columns: string[], userId: string) => {
+  const query = supabase.from(table).select(select);
+  const { data, error } = await (columns.length === 1
+    ? query.eq(columns[0], userId)
+    : query.or(columns.map(column => `${column}.eq.${userId}`).join(',')));
+  if (error) throw new Error(`Could not read ${table}: ${error.message}`);
+  return data || [];
+};
+
+const fetchAllSwipes = async (supabase: SupabaseClient, userId: string): Promise<ExportedSwipe[]> => {
+  const swipes: ExportedSwipe[] = [];
+  for (let from = 0; ; from += SWIPE_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('swipes')
+      .select('*, images(styles(name))')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + SWIPE_PAGE_SIZE - 1);
+    if (error) throw error;
+    const page = (data || []) as (Record<string, unknown> & { images: { styles: { name: string } | null } | null })[];
+    swipes.push(...page.map(({ images, ...swipe }) => ({ ...swipe, style_name: images?.styles?.name ?? null })));
+    if (page.length < SWIPE_PAGE_SIZE) return swipes;
+  }
+};
+
+// Missing or unreachable avatars are left out rather than failing the whole export
+const fetchAvatar = async (avatarUrl: string): Promise<ZipEntry | null> => {
+  try {
+    const response = await fetch(avatarUrl);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const extension = new URL(avatarUrl).pathname.split('.').pop()?.toLowerCase() || 'img';
+    return { name: `avatar.${extension}`, data: new Uint8Array(await response.arrayBuffer()) };
+  } catch (err) {
+    console.warn('Avatar could not be added to the data export.', err);
+    return null;
+  }
+};
+
+/**
+ * Collects everything stored about the user into a ZIP: the profiles row, every swipe as JSON
+ * and CSV, swipe sessions, boards, invites and connections, broken image reports and the avatar
+ * image. Covers the same tables purgeAccount deletes. Runs in the browser under the user's own session.
+ */
+export const buildDataExport = async (
+  supabase: SupabaseClient,
+  userId: string,
+  onProgress?: (step: ExportProgress) => void
+): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const exportedAt = new Date();
+
+  onProgress?.('profile');
+  const { data: profile, error: profileError } = await supabase.from('profiles').select('*').eq('id', userId).maybeSingle();
+  if (profileError) throw profileError;
+
+  onProgress?.('swipes');
+  const swipes = await fetchAllSwipes(supabase, userId);
+
+  onProgress?.('activity');
+  const [swipeSessions, boards, invites, connections, brokenImageReports] = await Promise.all([
+    fetchUserRows(supabase, 'swipe_sessions', '*', ['user_id'], userId),
+    fetchUserRows(supabase, 'boards', '*, board_images(*)', ['user_id'], userId),
+    fetchUserRows(supabase, 'compatibility_invites', '*', ['inviter_id', 'accepted_by'], userId),
+    fetchUserRows(supabase, 'taste_connections', '*', ['user_a', 'user_b'], userId),
+    fetchUserRows(supabase, 'broken_image_reports', '*', ['user_id'], userId),
+  ]);
+
+  onProgress?.('avatar');
+  const avatar = profile?.avatar_url ? await fetchAvatar(profile.avatar_url) : null;
+
+  onProgress?.('packaging');
+  const readme = [
+    `ArchiSwipe data export for user ${userId}`,
+    `Exported at ${exportedAt.toISOString()}`,
+    '',
+    'profile.json  Your profile row',
+    `swipes.json   All ${swipes.length} swipes with every stored field`,
+    'swipes.csv    The same swipes as a spreadsheet; direction true = like',
+    'swipe_sessions.json          Your swiping sessions',
+    'boards.json                  Your boards and the images on them',
+    'compatibility_invites.json   Invites you sent or accepted',
+    'taste_connections.json       People you are connected with',
+    'broken_image_reports.json    Images you reported as broken',
+    avatar ? `${avatar.name.padEnd(13)} Your profile picture` : 'No profile picture was included.',
+  ].join('\n');
+
+  const entries: ZipEntry[] = [
+    { name: 'README.txt', data: encoder.encode(readme) },
+    { name: 'profile.json', data: encoder.encode(JSON.stringify(profile, null, 2)) },
+    { name: 'swipes.json', data: encoder.encode(JSON.stringify(swipes, null, 2)) },
+    { name: 'swipes.csv', data: encoder.encode(toCsv(swipes, LEADING_SWIPE_COLUMNS)) },
+    { name: 'swipe_sessions.json', data: encoder.encode(JSON.stringify(swipeSessions, null, 2)) },
+    { name: 'boards.json', data: encoder.encode(JSON.stringify(boards, null, 2)) },
+    { name: 'compatibility_invites.json', data: encoder.encode(JSON.stringify(invites, null, 2)) },
+    { name: 'taste_connections.json', data: encoder.encode(JSON.stringify(connections, null, 2)) },
+    { name: 'broken_image_reports.json', data: encoder.encode(JSON.stringify(brokenImageReports, null, 2)) },
+  ];
+  if (avatar) entries.push(avatar);
+  return createZip(entries, exportedAt);
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking synchronously can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,67 @@
+// src/app/lib/dateRange.ts
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+
+// Inclusive UTC calendar days as yyyy-MM-dd, the same days the admin RPCs bucket by; null on either side leaves that side open
+export interface DateRange {
+  from: string | null;
+  to: string | null;
+}
+
+export interface DateRangePreset {
+  id: string;
+  label: string;
+  // Null means all time
+  days: number | null;
+}
+
+export const DATE_RANGE_PRESETS: DateRangePreset[] = [
+  { id: '7d', label: 'Last 7 days', days: 7 },
+  { id: '30d', label: 'Last 30 days', days: 30 },
+  { id: '90d', label: 'Last 90 days', days: 90 },
+  { id: 'all', label: 'All time', days: null },
+];
+
+const DAY_FORMAT = 'yyyy-MM-dd';
+
+// The UTC day a moment falls on
+export const toDayString = (date: Date) => date.toISOString().slice(0, 10);
+
+// Pure calendar arithmetic on a yyyy-MM-dd day, independent of the browser's timezone
+const shiftDay = (day: string, days: number) => format(addDays(parseISO(day), days), DAY_FORMAT);
+
+export const getPresetRange = (preset: DateRangePreset, today = new Date()): DateRange => {
+  if (preset.days === null) return { from: null, to: null };
+  const todayDay = toDayString(today);
+  return { from: shiftDay(todayDay, 1 - preset.days), to: todayDay };
+};
+
+export const findMatchingPreset = (range: DateRange, today = new Date()): DateRangePreset | null =>
+  DATE_RANGE_PRESETS.find(preset => {
+    const presetRange = getPresetRange(preset, today);
+    return presetRange.from === range.from && presetRange.to === range.to;
+  }) || null;
+
+/**
+ * RPC parameters for a range: a half-open [start, end) pair of UTC midnights so the whole "to" day is included.
+ * Open sides are sent as null, which the admin RPCs treat as unbounded.
+ */
+export const toRangeParams = (range: DateRange) => ({
+  start_date_param: range.from ? `${range.from}T00:00:00.000Z` : null,
+  end_date_param: range.to ? `${shiftDay(range.to, 1)}T00:00:00.000Z` : null,
+});
+
+export const describeDateRange = (range: DateRange): string => {
+  const preset = findMatchingPreset(range);
+  if (preset) return preset.label;
+  const formatDay = (day: string) => format(parseISO(day), 'd MMM yyyy');
+  if (range.from && range.to) return `${formatDay(range.from)} – ${formatDay(range.to)}`;
+  if (range.from) return `Since ${formatDay(range.from)}`;
+  if (range.to) return `Up to ${formatDay(range.to)}`;
+  return 'All time';
+};
+
+// Every day from the first to the last, inclusive, as yyyy-MM-dd
+export const listDays = (from: string, to: string): string[] => {
+  const dayCount = differenceInCalendarDays(parseISO(to), parseISO(from)) + 1;
+  return Array.from({ length: Math.max(0, dayCount) }, (_, index) => shiftDay(from, index));
+};
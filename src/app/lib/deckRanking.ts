@@ -0,0 +1,107 @@
+// src/app/lib/deckRanking.ts
+
+// Which ordering a user's deck uses; recorded on every swipe so the two can be compared
+export type DeckOrder = 'ranked' | 'unranked';
+
+export interface StyleAffinity {
+  styleName: string;
+  totalSeenInStyle: number;
+  totalLikedInStyle: number;
+}
+
+export interface RankingSignals {
+  styleRatios: StyleAffinity[];
+  // The user's stated architectural_preferences
+  preferredStyles: string[];
+}
+
+export interface RankingOptions {
+  // Share of the deck (0-1) reserved for styles the user has seen least, so new styles still appear
+  explorationShare: number;
+  random?: () => number;
+}
+
+export interface RankableCard {
+  id: number;
+  style_name: string | null;
+}
+
+// Swipes a style needs before its own like ratio outweighs the user's overall ratio
+const PRIOR_SWIPES = 3;
+const PREFERENCE_BONUS = 0.25;
+
+const DEFAULT_EXPLORATION_SHARE = 0.2;
+// Share of users kept on the database order as a control group
+export const UNRANKED_HOLDOUT_SHARE = 0.1;
+
+// Like ratio for one style pulled towards the user's overall ratio while the style has few swipes
+export const getSmoothedLikeRate = (liked: number, seen: number, overallRatio: number): number =>
+  (liked + PRIOR_SWIPES * overallRatio) / (seen + PRIOR_SWIPES);
+
+// Tunable per deployment via NEXT_PUBLIC_DECK_EXPLORATION_SHARE (0-1)
+export const getExplorationShare = (): number => {
+  const configured = process.env.NEXT_PUBLIC_DECK_EXPLORATION_SHARE;
+  const share = configured ? Number(configured) : NaN;
+  return Number.isFinite(share) && share >= 0 && share <= 1 ? share : DEFAULT_EXPLORATION_SHARE;
+};
+
+// Stable bucket per user so the same person always sees the same ordering
+export const getDeckOrderForUser = (userId: string, holdoutShare = UNRANKED_HOLDOUT_SHARE): DeckOrder => {
+  let hash = 2166136261;
+  for (let i = 0; i < userId.length; i++) {
+    hash ^= userId.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return ((hash >>> 0) % 100) < holdoutShare * 100 ? 'unranked' : 'ranked';
+};
+
+/**
+ * Orders a batch of unseen cards by how likely the user is to enjoy each style: a like ratio
+ * smoothed towards their overall ratio, plus a bonus for stated preferences. Every
+ * 1/explorationShare-th slot goes to the card whose style they have seen least instead.
+ */
+export const rankDeck = <T extends RankableCard>(
+  cards: T[],
+  signals: RankingSignals,
+  { explorationShare, random = Math.random }: RankingOptions
+): T[] => {
+  // A card listed twice would otherwise leave the queues below one short of cards.length
+  const uniqueCards = Array.from(new Map(cards.map(card => [card.id, card])).values());
+  if (uniqueCards.length <= 1) return uniqueCards;
+
+  const ratiosByStyle = new Map(signals.styleRatios.map(ratio => [ratio.styleName, ratio]));
+  const preferred = new Set(signals.preferredStyles);
+  const totalSeen = signals.styleRatios.reduce((sum, ratio) => sum + ratio.totalSeenInStyle, 0);
+  const totalLiked = signals.styleRatios.reduce((sum, ratio) => sum + ratio.totalLikedInStyle, 0);
+  const overallRatio = totalSeen > 0 ? totalLiked / totalSeen : 0.5;
+
+  const seenCount = (card: T) => (card.style_name ? ratiosByStyle.get(card.style_name)?.totalSeenInStyle ?? 0 : 0);
+  const score = (card: T) => {
+    const ratio = card.style_name ? ratiosByStyle.get(card.style_name) : undefined;
+    const smoothed = getSmoothedLikeRate(ratio?.totalLikedInStyle ?? 0, ratio?.totalSeenInStyle ?? 0, overallRatio);
+    return smoothed + (card.style_name && preferred.has(card.style_name) ? PREFERENCE_BONUS : 0);
+  };
+
+  // Random tie-breaks keep equally scored cards from always arriving in database order
+  const jittered = uniqueCards.map(card => ({ card, score: score(card), seen: seenCount(card), tieBreak: random() }));
+  const exploitQueue = [...jittered].sort((a, b) => b.score - a.score || a.tieBreak - b.tieBreak);
+
+  const share = Math.min(Math.max(explorationShare, 0), 1);
+  const exploreCount = Math.round(uniqueCards.length * share);
+  const exploreQueue = [...jittered]
+    .sort((a, b) => a.seen - b.seen || a.tieBreak - b.tieBreak)
+    .slice(0, exploreCount);
+  const exploreIds = new Set(exploreQueue.map(entry => entry.card.id));
+  const remainingExploit = exploitQueue.filter(entry => !exploreIds.has(entry.card.id));
+
+  const interval = exploreCount > 0 ? Math.max(1, Math.round(1 / share)) : Infinity;
+  const ordered: T[] = [];
+  for (let slot = 1; ordered.length < uniqueCards.length; slot++) {
+    const takeExplore = exploreQueue.length > 0 && (slot % interval === 0 || remainingExploit.length === 0);
+    const next = takeExplore ? exploreQueue.shift() : remainingExploit.shift();
+    // Only empty once both queues are, so there is nothing left to place
+    if (!next) break;
+    ordered.push(next.card);
+  }
+  return ordered;
+};
@@ -0,0 +1,14 @@
+// src/app/lib/houseImages.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// Storage bucket holding every building photo; images.storage_path is relative to it
+export const HOUSE_IMAGES_BUCKET = 'house-images';
+
+// Public URL for a building photo; pass a width (and optionally a quality) for a resized version
+export const getHouseImageUrl = (supabase: SupabaseClient, storagePath: string, width?: number, quality?: number): string | null => {
+  const { data } = supabase.storage.from(HOUSE_IMAGES_BUCKET).getPublicUrl(
+    decodeURIComponent(storagePath),
+    width ? { transform: { width, quality } } : undefined
+  );
+  return data?.publicUrl || null;
+};
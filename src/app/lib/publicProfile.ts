@@ -0,0 +1,42 @@
+// src/app/lib/publicProfile.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { StyleAffinity } from '@/app/lib/deckRanking';
+
+// Parts of a profile the owner can choose to show on /u/[username]; stored in profiles.public_sections
+export type PublicProfileSection = 'bio' | 'preferences' | 'taste' | 'likes';
+
+export const PUBLIC_PROFILE_SECTIONS: { id: PublicProfileSection; label: string; description: string }[] = [
+  { id: 'bio', label: 'Bio', description: 'Your bio text' },
+  { id: 'preferences', label: 'Favourite styles', description: 'The styles picked in Preferences' },
+  { id: 'taste', label: 'Taste profile', description: 'Your archetype and style affinities' },
+  { id: 'likes', label: 'Liked buildings', description: 'Your most recent likes' },
+];
+
+export interface PublicLikedImage {
+  image_id: number;
+  storage_path: string;
+  style_name: string | null;
+}
+
+// What get_public_profile returns; hidden sections come back as null
+export interface PublicProfile {
+  username: string;
+  full_name: string | null;
+  avatar_url: string | null;
+  bio: string | null;
+  architectural_preferences: string[] | null;
+  style_like_ratios: StyleAffinity[] | null;
+  liked_images: PublicLikedImage[] | null;
+}
+
+export const PUBLIC_LIKES_LIMIT = 24;
+
+// Resolves to null when the username doesn't exist or its owner hasn't made the profile public
+export const fetchPublicProfile = async (supabase: SupabaseClient, username: string): Promise<PublicProfile | null> => {
+  const { data, error } = await supabase.rpc('get_public_profile', {
+    username_param: username,
+    likes_limit: PUBLIC_LIKES_LIMIT,
+  });
+  if (error) throw error;
+  return (data as PublicProfile | null) ?? null;
+};
@@ -0,0 +1,80 @@
+// src/app/lib/styleTaxonomy.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export const MAX_STYLE_NAME_LENGTH = 50;
+
+// Styles nest one level deep: a parent ("Modernism") groups sub-styles ("Bauhaus") for analytics roll-ups
+export interface StyleNode {
+  id: number;
+  name: string;
+  parent_id: number | null;
+}
+
+export interface TaxonomyStyle extends StyleNode {
+  image_count: number;
+}
+
+export const normalizeStyleName = (name: string): string => name.trim().replace(/\s+/g, ' ');
+
+export const fetchStyleTaxonomy = async (supabase: SupabaseClient): Promise<TaxonomyStyle[]> => {
+  const { data, error } = await supabase
+    .from('styles')
+    .select('id, name, parent_id, images(count)')
+    .order('name', { ascending: true });
+  if (error) throw error;
+  return ((data || []) as (StyleNode & { images: { count: number }[] })[]).map(({ images, ...style }) => ({
+    ...style,
+    image_count: images[0]?.count ?? 0,
+  }));
+};
+
+export const createStyle = async (supabase: SupabaseClient, name: string, parentId: number | null) => {
+  const { error } = await supabase.from('styles').insert({ name: normalizeStyleName(name), parent_id: parentId });
+  if (error) throw error;
+};
+
+export const setStyleParent = async (supabase: SupabaseClient, styleId: number, parentId: number | null) => {
+  const { error } = await supabase.from('styles').update({ parent_id: parentId }).eq('id', styleId);
+  if (error) throw error;
+};
+
+// Users' architectural_preferences store style names, so renames, deletes and merges run as RPCs that
+// rewrite those arrays in the same transaction as the styles change.
+export const renameStyle = async (supabase: SupabaseClient, styleId: number, name: string) => {
+  const { error } = await supabase.rpc('admin_rename_style', { style_id_param: styleId, new_name_param: normalizeStyleName(name) });
+  if (error) throw error;
+};
+
+// Sub-styles of a deleted parent become top-level styles
+export const deleteStyle = async (supabase: SupabaseClient, styleId: number) => {
+  const { error } = await supabase.rpc('admin_delete_style', { style_id_param: styleId });
+  if (error) throw error;
+};
+
+// Moves the source style's images, sub-styles and preferences onto the target, then deletes the source
+export const mergeStyles = async (supabase: SupabaseClient, sourceStyleId: number, targetStyleId: number) => {
+  const { error } = await supabase.rpc('admin_merge_styles', {
+    source_style_id_param: sourceStyleId,
+    target_style_id_param: targetStyleId,
+  });
+  if (error) throw error;
+};
+
+// A style can only take a top-level parent other than itself, and only while it has no sub-styles of its own
+export const getParentOptions = <T extends StyleNode>(styles: T[], style: T): T[] => {
+  if (styles.some(other => other.parent_id === style.id)) return [];
+  return styles.filter(other => other.id !== style.id && other.parent_id === null);
+};
+
+// Merging moves the source's sub-styles to the target, so a style with sub-styles can only merge into a
+// top-level style, and never into one of its own sub-styles
+export const getMergeTargets = <T extends StyleNode>(styles: T[], style: T): T[] => {
+  const hasSubStyles = styles.some(other => other.parent_id === style.id);
+  return styles.filter(other => other.id !== style.id && other.parent_id !== style.id && (!hasSubStyles || other.parent_id === null));
+};
+
+// Maps every style name to the name it rolls up into: its parent's, or its own for top-level styles
+export const buildRollUpLookup = (styles: StyleNode[]): Map<string, string> => {
+  const namesById = new Map(styles.map(style => [style.id, style.name]));
+  return new Map(styles.map(style => [style.name, (style.parent_id !== null && namesById.get(style.parent_id)) || style.name]));
+};
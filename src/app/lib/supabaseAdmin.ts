@@ -0,0 +1,63 @@
+// src/app/lib/supabaseAdmin.ts
+// Server-only: the service role key bypasses row level security. Never import this from a client component.
+import { NextResponse } from 'next/server';
+import { createClient, SupabaseClient, User } from '@supabase/supabase-js';
+
+export const createSupabaseAdminClient = (): SupabaseClient => {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl) {
+    throw new Error("Missing environment variable: NEXT_PUBLIC_SUPABASE_URL");
+  }
+  if (!serviceRoleKey) {
+    throw new Error("Missing environment variable: SUPABASE_SERVICE_ROLE_KEY");
+  }
+
+  return createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+};
+
+// Route handlers receive the caller's access token as "Authorization: Bearer <token>"
+export const getRequestUser = async (admin: SupabaseClient, request: Request): Promise<User | null> => {
+  const token = request.headers.get('authorization')?.match(/^Bearer (.+)$/i)?.[1];
+  if (!token) return null;
+  const { data, error } = await admin.auth.getUser(token);
+  if (error) return null;
+  return data.user;
+};
+
+// Same check AdminLayout makes on the client, repeated here because the client can't be trusted
+export const isAdminUser = (user: User | null): boolean => !!user?.app_metadata?.roles?.includes('admin');
+
+interface WithCallerOptions {
+  // Answer 403 unless the caller is an admin
+  requireAdmin?: boolean;
+}
+
+// Resolves the signed-in caller from their bearer token before running the handler with the admin client,
+// answering 401 (or 403 for admin-only routes) itself and turning thrown errors into a 500
+export const withCaller = async (
+  request: Request,
+  handler: (admin: SupabaseClient, caller: User) => Promise<Response>,
+  { requireAdmin = false }: WithCallerOptions = {}
+) => {
+  const route = new URL(request.url).pathname;
+  let admin: SupabaseClient;
+  try {
+    admin = createSupabaseAdminClient();
+  } catch (err) {
+    console.error(`${route} is not configured:`, err);
+    return NextResponse.json({ error: 'This is not available right now.' }, { status: 500 });
+  }
+  const caller = await getRequestUser(admin, request);
+  if (!caller) return NextResponse.json({ error: 'You need to be signed in.' }, { status: 401 });
+  if (requireAdmin && !isAdminUser(caller)) return NextResponse.json({ error: 'Admins only.' }, { status: 403 });
+  try {
+    return await handler(admin, caller);
+  } catch (err) {
+    console.error(`${route} failed:`, err);
+    return NextResponse.json({ error: (err as Error).message || 'Unknown error' }, { status: 500 });
+  }
+};
@@ -0,0 +1,159 @@
+// src/app/lib/swipeQueue.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { DeckOrder } from '@/app/lib/deckRanking';
+
+export type SwipeInputMethod = 'drag' | 'button' | 'keyboard';
+
+// Interaction details captured by the card and stored with each swipe for admin analytics
+export interface SwipeTelemetry {
+  input_method: SwipeInputMethod;
+  // Offset of the final drag when the card was let go; null for button and keyboard swipes
+  drag_distance_px: number | null;
+  // Fastest pointer speed seen while dragging this card
+  peak_velocity_px_s: number | null;
+  // Horizontal direction changes while dragging, a proxy for hesitation
+  direction_reversals: number;
+  // Dwell time counting only while the tab was visible and nothing covered the card
+  visible_time_on_card_ms: number | null;
+}
+
+// Shape of a row written to the `swipes` table
+export interface SwipeRow extends SwipeTelemetry {
+  user_id: string;
+  image_id: number;
+  direction: boolean;
+  is_super_like: boolean;
+  time_spent_on_card_ms: number | null;
+  // Whether the card came from the ranked deck or the unranked control group
+  deck_order: DeckOrder;
+}
+
+interface QueuedSwipe {
+  row: SwipeRow;
+  queued_at: number;
+  attempts: number;
+  next_attempt_at: number;
+}
+
+const STORAGE_KEY = 'archiswipe:swipe-queue';
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+const UNIQUE_VIOLATION_CODE = '23505';
+
+let isFlushing = false;
+
+const readQueue = (): QueuedSwipe[] => {
+  if (typeof window === 'undefined') return [];
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as QueuedSwipe[]) : [];
+  } catch (err) {
+    console.warn('Swipe queue could not be read, starting empty.', err);
+    return [];
+  }
+};
+
+const writeQueue = (queue: QueuedSwipe[]) => {
+  if (typeof window === 'undefined') return;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(queue));
+  } catch (err) {
+    // Storage full or disabled; the in-flight swipe is lost but the UI keeps working
+    console.error('Swipe queue could not be persisted.', err);
+  }
+};
+
+const isSameSwipe = (entry: QueuedSwipe, userId: string, imageId: number) =>
+  entry.row.user_id === userId && entry.row.image_id === imageId;
+
+export const getPendingSwipeCount = (userId: string): number =>
+  readQueue().filter(entry => entry.row.user_id === userId).length;
+
+export const getQueuedImageIds = (userId: string): Set<number> =>
+  new Set(readQueue().filter(entry => entry.row.user_id === userId).map(entry => entry.row.image_id));
+
+export const enqueueSwipe = (row: SwipeRow) => {
+  const now = Date.now();
+  // A newer verdict for the same image replaces an unsynced older one
+  const queue = readQueue().filter(entry => !isSameSwipe(entry, row.user_id, row.image_id));
+  queue.push({ row, queued_at: now, attempts: 0, next_attempt_at: now });
+  writeQueue(queue);
+};
+
+// Returns true if the swipe was still waiting to be synced
+export const removeQueuedSwipe = (userId: string, imageId: number): boolean => {
+  const queue = readQueue();
+  const remaining = queue.filter(entry => !isSameSwipe(entry, userId, imageId));
+  if (remaining.length === queue.length) return false;
+  writeQueue(remaining);
+  return true;
+};
+
+// Milliseconds until the next queued swipe for this user is due, or null if none are queued
+export const getNextRetryDelay = (userId: string): number | null => {
+  const due = readQueue()
+    .filter(entry => entry.row.user_id === userId)
+    .map(entry => entry.next_attempt_at);
+  if (due.length === 0) return null;
+  return Math.max(0, Math.min(...due) - Date.now());
+};
+
+// A unique violation means a row for this image already exists, possibly with an older verdict that this
+// entry replaced while its insert was in flight, so the queued (newest) values are written over it
+const writeSwipe = async (supabase: SupabaseClient, row: SwipeRow) => {
+  const { error: insertError } = await supabase.from('swipes').insert(row);
+  if (insertError?.code !== UNIQUE_VIOLATION_CODE) return insertError;
+  const { error: updateError } = await supabase
+    .from('swipes')
+    .update(row)
+    .eq('user_id', row.user_id)
+    .eq('image_id', row.image_id);
+  return updateError;
+};
+
+/**
+ * Sends every due swipe for the user to Supabase. Failed writes stay queued with
+ * exponential backoff; a row that already exists is updated to the queued verdict.
+ * Resolves with the number of swipes still pending for the user.
+ */
+export const flushSwipeQueue = async (supabase: SupabaseClient, userId: string): Promise<number> => {
+  if (isFlushing || (typeof navigator !== 'undefined' && !navigator.onLine)) {
+    return getPendingSwipeCount(userId);
+  }
+  isFlushing = true;
+  try {
+    const now = Date.now();
+    const due = readQueue().filter(entry => entry.row.user_id === userId && entry.next_attempt_at <= now);
+
+    for (const entry of due) {
+      const writeError = await writeSwipe(supabase, entry.row);
+      // Re-read each time so swipes enqueued or undone during the flush are not clobbered
+      const queue = readQueue();
+      const index = queue.findIndex(
+        queued => isSameSwipe(queued, userId, entry.row.image_id) && queued.queued_at === entry.queued_at
+      );
+      if (!writeError) {
+        if (index > -1) {
+          queue.splice(index, 1);
+        } else if (!queue.some(queued => isSameSwipe(queued, userId, entry.row.image_id))) {
+          // The swipe was undone while its insert was in flight
+          await supabase.from('swipes').delete().eq('user_id', userId).eq('image_id', entry.row.image_id);
+        }
+      } else {
+        console.warn(`[Swipe Queue] Write failed for image ${entry.row.image_id}, will retry.`, writeError);
+        if (index > -1) {
+          const attempts = queue[index].attempts + 1;
+          queue[index] = {
+            ...queue[index],
+            attempts,
+            next_attempt_at: Date.now() + Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS),
+          };
+        }
+      }
+      writeQueue(queue);
+    }
+  } finally {
+    isFlushing = false;
+  }
+  return getPendingSwipeCount(userId);
+};
@@ -0,0 +1,83 @@
+// src/app/lib/tasteProfile.ts
+import { getSmoothedLikeRate, StyleAffinity } from '@/app/lib/deckRanking';
+
+export type AffinityConfidence = 'low' | 'medium' | 'high';
+
+export interface StyleAffinityScore {
+  styleName: string;
+  // -1 (passes everything in this style) to 1 (likes everything), 0 being the user's own average
+  affinity: number;
+  totalSeenInStyle: number;
+  totalLikedInStyle: number;
+  confidence: AffinityConfidence;
+}
+
+export interface TasteProfile {
+  // Strongest affinity first
+  affinities: StyleAffinityScore[];
+  overallLikeRatio: number;
+  // Null until at least one style has enough swipes to say anything
+  archetype: string | null;
+  leastDrawnTo: string | null;
+}
+
+export const MEDIUM_CONFIDENCE_SWIPES = 5;
+const HIGH_CONFIDENCE_SWIPES = 15;
+// Affinities beyond these count as a clear favourite, a soft spot, or a style the user isn't sold on
+const DEVOTEE_MIN_AFFINITY = 0.5;
+const SOFT_SPOT_MIN_AFFINITY = 0.2;
+const DISLIKE_MAX_AFFINITY = -0.4;
+
+export const getAffinityConfidence = (totalSeen: number): AffinityConfidence => {
+  if (totalSeen >= HIGH_CONFIDENCE_SWIPES) return 'high';
+  if (totalSeen >= MEDIUM_CONFIDENCE_SWIPES) return 'medium';
+  return 'low';
+};
+
+const describeTemperament = (overallLikeRatio: number): string => {
+  if (overallLikeRatio >= 0.65) return 'Warm';
+  if (overallLikeRatio >= 0.4) return 'Balanced';
+  return 'Discerning';
+};
+
+/**
+ * Turns per-style like counts into an affinity vector centred on the user's overall like ratio.
+ * Each style's smoothed ratio is scaled by the furthest it could sit from that average, so
+ * values are comparable across users regardless of how generous they are with likes.
+ */
+export const buildTasteProfile = (styleRatios: StyleAffinity[]): TasteProfile => {
+  const totalSeen = styleRatios.reduce((sum, ratio) => sum + ratio.totalSeenInStyle, 0);
+  const totalLiked = styleRatios.reduce((sum, ratio) => sum + ratio.totalLikedInStyle, 0);
+  const overallLikeRatio = totalSeen > 0 ? totalLiked / totalSeen : 0.5;
+  const maxDeviation = Math.max(overallLikeRatio, 1 - overallLikeRatio);
+
+  const affinities = styleRatios
+    .filter(ratio => ratio.totalSeenInStyle > 0)
+    .map(ratio => ({
+      styleName: ratio.styleName,
+      affinity: (getSmoothedLikeRate(ratio.totalLikedInStyle, ratio.totalSeenInStyle, overallLikeRatio) - overallLikeRatio) / maxDeviation,
+      totalSeenInStyle: ratio.totalSeenInStyle,
+      totalLikedInStyle: ratio.totalLikedInStyle,
+      confidence: getAffinityConfidence(ratio.totalSeenInStyle),
+    }))
+    .sort((a, b) => b.affinity - a.affinity || b.totalSeenInStyle - a.totalSeenInStyle);
+
+  // Low-confidence styles show in the chart but never drive the headline
+  const trusted = affinities.filter(score => score.confidence !== 'low');
+  const [lead, ...rest] = trusted;
+  let archetype: string | null = null;
+  if (lead) {
+    const temperament = describeTemperament(overallLikeRatio);
+    if (lead.affinity < SOFT_SPOT_MIN_AFFINITY) {
+      archetype = `${temperament} eclectic with no clear favourite yet`;
+    } else {
+      archetype = `${temperament} ${lead.styleName} ${lead.affinity >= DEVOTEE_MIN_AFFINITY ? 'devotee' : 'fan'}`;
+      const softSpot = rest.find(score => score.affinity >= SOFT_SPOT_MIN_AFFINITY);
+      if (softSpot) archetype += ` with a soft spot for ${softSpot.styleName}`;
+    }
+  }
+  const least = trusted[trusted.length - 1];
+  const leastDrawnTo = least && least !== lead && least.affinity <= DISLIKE_MAX_AFFINITY ? least.styleName : null;
+
+  return { affinities, overallLikeRatio, archetype, leastDrawnTo };
+};
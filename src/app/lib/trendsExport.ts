@@ -0,0 +1,63 @@
+// src/app/lib/trendsExport.ts
+import { format } from 'date-fns';
+import { downloadBlob, toCsv } from '@/app/lib/dataExport';
+import { createZip } from '@/app/lib/zip';
+
+export type TrendsExportFormat = 'csv' | 'json';
+
+// Everything that shaped the numbers on screen, so an exported file can be interpreted on its own
+export interface TrendsExportParameters {
+  date_range: string;
+  date_from: string | null;
+  date_to: string | null;
+  start_date_param: string | null;
+  end_date_param: string | null;
+  style_roll_up: boolean;
+  image_performance_limit: number;
+  exported_at: string;
+}
+
+export interface TrendsExportSection {
+  id: string;
+  title: string;
+  rows: object[];
+}
+
+const fileStamp = (exportedAt: string) => format(new Date(exportedAt), 'yyyyMMdd-HHmm');
+
+// Every row repeats the parameters in trailing param_* columns, so the header stays on the first line for
+// spreadsheets and the file still says how it was filtered once it's copied somewhere else
+const buildSectionCsv = (section: TrendsExportSection, parameters: TrendsExportParameters): string => {
+  const parameterColumns = Object.fromEntries(Object.entries(parameters).map(([key, value]) => [`param_${key}`, value]));
+  return toCsv((section.rows as Record<string, unknown>[]).map(row => ({ ...row, ...parameterColumns })));
+};
+
+const buildJson = (parameters: TrendsExportParameters, sections: TrendsExportSection[]) =>
+  JSON.stringify({
+    parameters,
+    sections: Object.fromEntries(sections.map(section => [section.id, { title: section.title, rows: section.rows }])),
+  }, null, 2);
+
+export const exportTrendsSection = (section: TrendsExportSection, parameters: TrendsExportParameters, exportFormat: TrendsExportFormat) => {
+  const baseName = `archiswipe-trends-${section.id}-${fileStamp(parameters.exported_at)}`;
+  if (exportFormat === 'csv') {
+    downloadBlob(new Blob([buildSectionCsv(section, parameters)], { type: 'text/csv;charset=utf-8' }), `${baseName}.csv`);
+  } else {
+    downloadBlob(new Blob([buildJson(parameters, [section])], { type: 'application/json' }), `${baseName}.json`);
+  }
+};
+
+// JSON is a single document; CSV can't hold several tables, so it becomes a ZIP with one file per section
+export const exportTrendsPage = (sections: TrendsExportSection[], parameters: TrendsExportParameters, exportFormat: TrendsExportFormat) => {
+  const baseName = `archiswipe-trends-${fileStamp(parameters.exported_at)}`;
+  if (exportFormat === 'json') {
+    downloadBlob(new Blob([buildJson(parameters, sections)], { type: 'application/json' }), `${baseName}.json`);
+    return;
+  }
+  const encoder = new TextEncoder();
+  const archive = createZip(
+    sections.map(section => ({ name: `${section.id}.csv`, data: encoder.encode(buildSectionCsv(section, parameters)) })),
+    new Date(parameters.exported_at)
+  );
+  downloadBlob(archive, `${baseName}.zip`);
+};
@@ -0,0 +1,76 @@
+// src/app/lib/usernames.ts
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export const USERNAME_MIN_LENGTH = 3;
+export const USERNAME_MAX_LENGTH = 30;
+
+// Lowercase letters, digits and underscores, starting with a letter or digit
+const USERNAME_PATTERN = /^[a-z0-9][a-z0-9_]*$/;
+
+// Names that would be confusing in /u/<username> links or could pass for staff accounts
+const RESERVED_USERNAMES = new Set([
+  'admin', 'administrator', 'root', 'system', 'support', 'help', 'moderator', 'mod', 'staff',
+  'archiswipe', 'official', 'api', 'auth', 'login', 'signup', 'settings', 'profile', 'swipe',
+  'match', 'boards', 'me', 'u', 'null', 'undefined',
+]);
+
+// Postgres unique_violation, raised by the unique index on profiles.username
+export const UNIQUE_VIOLATION_CODE = '23505';
+
+export const normalizeUsername = (username: string) => username.trim().toLowerCase();
+
+// Returns a message describing the first rule the username breaks, or null if it is valid
+export const validateUsername = (username: string): string | null => {
+  const normalized = normalizeUsername(username);
+  if (normalized.length < USERNAME_MIN_LENGTH) return `Usernames need at least ${USERNAME_MIN_LENGTH} characters.`;
+  if (normalized.length > USERNAME_MAX_LENGTH) return `Usernames can be at most ${USERNAME_MAX_LENGTH} characters.`;
+  if (!USERNAME_PATTERN.test(normalized)) {
+    return normalized.startsWith('_')
+      ? 'Usernames must start with a letter or number.'
+      : 'Use only letters, numbers and underscores.';
+  }
+  if (RESERVED_USERNAMES.has(normalized)) return `"${normalized}" is reserved. Please pick another username.`;
+  return null;
+};
+
+// Checked through an RPC because row level security hides other users' profiles
+export const isUsernameAvailable = async (supabase: SupabaseClient, username: string): Promise<boolean> => {
+  const { data, error } = await supabase.rpc('is_username_available', { username_param: normalizeUsername(username) });
+  if (error) throw error;
+  return !!data;
+};
+
+// Turns an email prefix into something that passes validateUsername, before any uniqueness suffix
+const usernameBaseFromEmail = (email: string | undefined, userId: string) => {
+  const base = (email?.split('@')[0] || '')
+    .toLowerCase()
+    .replace(/[^a-z0-9_]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, USERNAME_MAX_LENGTH - 5);
+  if (base.length < USERNAME_MIN_LENGTH || RESERVED_USERNAMES.has(base)) return `user_${userId.replace(/-/g, '').slice(0, 6)}`;
+  return base;
+};
+
+const USERNAME_GENERATION_ATTEMPTS = 5;
+
+// Built from the user id, so it's practically never taken; the last resort for new profiles
+export const getFallbackUsername = (userId: string) => `user_${userId.replace(/-/g, '').slice(0, 12)}`;
+
+/**
+ * Picks a valid, currently unused username for a new profile, starting from the email prefix and
+ * adding a random numeric suffix on collision. The unique index still has the final say.
+ * Never throws: if availability can't be checked, the current candidate is used as is.
+ */
+export const generateAvailableUsername = async (supabase: SupabaseClient, email: string | undefined, userId: string): Promise<string> => {
+  const base = usernameBaseFromEmail(email, userId);
+  for (let attempt = 0; attempt < USERNAME_GENERATION_ATTEMPTS; attempt++) {
+    const candidate = attempt === 0 ? base : `${base}_${Math.floor(1000 + Math.random() * 9000)}`;
+    try {
+      if (await isUsernameAvailable(supabase, candidate)) return candidate;
+    } catch (err) {
+      console.warn('Username availability check failed while creating a profile:', err);
+      return candidate;
+    }
+  }
+  return getFallbackUsername(userId);
+};
@@ -0,0 +1,177 @@
+// src/app/match/[username]/page.tsx
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { useAuth } from '@/app/context/AuthContext';
+import {
+  CommonSwipe,
+  computeCompatibility,
+  fetchTasteComparison,
+  TasteComparison,
+} from '@/app/lib/compatibility';
+import { getHouseImageUrl } from '@/app/lib/houseImages';
+import {
+  ChevronLeft as ChevronLeftIcon,
+  Heart as HeartIcon,
+  Star as StarIcon,
+  X as XIcon,
+  Zap as ZapIcon,
+} from 'lucide-react';
+
+const IMAGE_WIDTH = 400;
+
+const describeVerdict = (direction: boolean, isSuperLike: boolean) => (isSuperLike ? 'super-liked' : direction ? 'liked' : 'passed');
+
+export default function ComparisonPage() {
+  const { session, supabase, isLoading: isLoadingAuth } = useAuth();
+  const router = useRouter();
+  const params = useParams<{ username: string }>();
+  const username = decodeURIComponent(params.username);
+
+  const [comparison, setComparison] = useState<TasteComparison | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isLoadingAuth && !session) {
+      router.replace('/auth');
+    }
+  }, [isLoadingAuth, session, router]);
+
+  useEffect(() => {
+    if (!session || !supabase) return;
+    let cancelled = false;
+    const loadComparison = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const result = await fetchTasteComparison(supabase, username);
+        if (!cancelled) setComparison(result);
+      } catch (err) {
+        if (!cancelled) setError(`Failed to compare tastes: ${(err as Error).message || 'Unknown error'}`);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    loadComparison();
+    return () => {
+      cancelled = true;
+    };
+  }, [session, supabase, username]);
+
+  if (isLoadingAuth || !session) return null;
+
+  const result = comparison ? computeCompatibility(comparison) : null;
+  const otherName = comparison?.other.full_name || comparison?.other.username || username;
+
+  const renderSwipeGrid = (swipes: CommonSwipe[], showVerdicts: boolean) => (
+    <ul className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+      {swipes.map(swipe => {
+        const imageUrl = getHouseImageUrl(supabase, swipe.storage_path, IMAGE_WIDTH);
+        return (
+          <li key={swipe.image_id} className="relative rounded-xl overflow-hidden bg-pink-50 shadow-sm border border-gray-200 aspect-square">
+            {imageUrl && <img src={imageUrl} alt={`${swipe.style_name || 'Shared'} building`} loading="lazy" className="w-full h-full object-cover" />}
+            {(swipe.my_super_like || swipe.their_super_like) && (
+              <span className="absolute top-2 right-2 p-1.5 rounded-full bg-sky-500 text-white shadow" title="Super liked">
+                <StarIcon aria-hidden="true" size={14} fill="currentColor" />
+              </span>
+            )}
+            <span className="absolute inset-x-0 bottom-0 bg-gradient-to-t from-black/75 to-transparent px-3 pt-6 pb-2 text-white">
+              <span className="block text-sm font-semibold truncate">{swipe.style_name || 'Unknown style'}</span>
+              {showVerdicts && (
+                <span className="block text-xs text-white/85">
+                  You {describeVerdict(swipe.my_direction, swipe.my_super_like)}, {otherName} {describeVerdict(swipe.their_direction, swipe.their_super_like)}
+                </span>
+              )}
+            </span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-pink-50 via-rose-50 to-fuchsia-50 text-slate-700">
+      <section className="max-w-5xl mx-auto px-4 py-8 sm:py-12">
+        <Link href="/match" className="inline-flex items-center text-sm text-pink-600 hover:underline mb-6">
+          <ChevronLeftIcon size={16} className="mr-0.5" /> All matches
+        </Link>
+
+        {loading ? (
+          <p className="text-gray-500 italic text-sm">Comparing your tastes...</p>
+        ) : error ? (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">{error}</div>
+        ) : !comparison || !result ? (
+          <div className="bg-white rounded-xl p-8 border border-gray-200 shadow-sm text-center">
+            <h1 className="text-2xl font-bold text-slate-800 mb-2">You&apos;re not connected with @{username}</h1>
+            <p className="text-sm text-gray-500">Send them an invite link from the <Link href="/match" className="text-pink-600 hover:underline">matchmaking page</Link> to compare tastes.</p>
+          </div>
+        ) : (
+          <>
+            <div className="bg-white rounded-3xl shadow-xl border border-pink-100 p-6 sm:p-10 mb-10 text-center">
+              <p className="text-sm uppercase tracking-wide text-pink-500 font-semibold mb-2">You &amp; {otherName}</p>
+              <p className="text-6xl font-bold text-pink-600">{result.score}%</p>
+              <p className="text-slate-600 mt-2">taste compatibility</p>
+              <p className="text-xs text-gray-500 mt-4">
+                Based on {result.commonImageCount} {result.commonImageCount === 1 ? 'building' : 'buildings'} you both swiped
+                {result.imageAgreement !== null && ` (${Math.round(result.imageAgreement * 100)}% same verdict)`} and {result.sharedStyleCount} shared {result.sharedStyleCount === 1 ? 'style' : 'styles'}.
+              </p>
+              {result.isLowConfidence && (
+                <p className="mt-3 inline-block px-3 py-1 rounded-full bg-amber-100 text-amber-700 text-xs font-medium">
+                  Early estimate: keep swiping, both of you, to firm this up
+                </p>
+              )}
+            </div>
+
+            <div className="mb-10">
+              <h2 className="font-semibold text-slate-700 mb-4 text-lg flex items-center">
+                <HeartIcon size={20} className="mr-2 text-pink-600" /> Shared Loves
+              </h2>
+              {result.sharedLoves.length > 0
+                ? renderSwipeGrid(result.sharedLoves, false)
+                : <p className="text-gray-500 italic text-sm bg-white p-4 rounded-lg shadow-sm border">No buildings you both liked yet.</p>}
+            </div>
+
+            <div className="mb-10">
+              <h2 className="font-semibold text-slate-700 mb-4 text-lg flex items-center">
+                <XIcon size={20} className="mr-2 text-red-500" /> Biggest Disagreements
+              </h2>
+              {result.disagreements.length > 0
+                ? renderSwipeGrid(result.disagreements, true)
+                : <p className="text-gray-500 italic text-sm bg-white p-4 rounded-lg shadow-sm border">You haven&apos;t disagreed on a building yet.</p>}
+            </div>
+
+            {result.styleGaps.length > 0 && (
+              <div>
+                <h2 className="font-semibold text-slate-700 mb-4 text-lg flex items-center">
+                  <ZapIcon size={20} className="mr-2 text-amber-500" /> Where Your Styles Differ Most
+                </h2>
+                <ul className="space-y-3 bg-white rounded-xl p-5 border border-gray-200 shadow-sm">
+                  {result.styleGaps.map(gap => (
+                    <li key={gap.styleName}>
+                      <p className="text-sm font-medium text-slate-800 mb-1">{gap.styleName}</p>
+                      {[
+                        { label: 'You', affinity: gap.myAffinity, color: 'bg-pink-500' },
+                        { label: otherName, affinity: gap.theirAffinity, color: 'bg-fuchsia-400' },
+                      ].map(row => (
+                        <div key={row.label} className="flex items-center gap-2 text-xs text-gray-500 mb-1">
+                          <span className="w-20 truncate">{row.label}</span>
+                          <div role="img" aria-label={`${row.label}: affinity ${Math.round(row.affinity * 100)} on a scale from -100 to 100`} className="relative flex-grow h-2.5 bg-gray-100 rounded-full overflow-hidden">
+                            <span aria-hidden="true" className="absolute inset-y-0 left-1/2 w-px bg-gray-400 z-10" />
+                            <span aria-hidden="true" className={`absolute inset-y-0 ${row.color} ${row.affinity >= 0 ? 'left-1/2' : 'right-1/2'}`} style={{ width: `${Math.abs(row.affinity) * 50}%` }} />
+                          </div>
+                        </div>
+                      ))}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </>
+        )}
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,191 @@
+// src/app/match/page.tsx
+'use client';
+
+import React, { Suspense, useCallback, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { formatDistanceToNow } from 'date-fns';
+import { useAuth } from '@/app/context/AuthContext';
+import {
+  acceptCompatibilityInvite,
+  createCompatibilityInvite,
+  fetchTasteConnections,
+  stashPendingInvite,
+  takePendingInvite,
+  TasteConnection,
+} from '@/app/lib/compatibility';
+import {
+  Check as CheckIcon,
+  ChevronRight as ChevronRightIcon,
+  Compass as CompassIcon,
+  Copy as CopyIcon,
+  Link as LinkIcon,
+  User as UserIcon,
+  Users as UsersIcon,
+} from 'lucide-react';
+
+// useSearchParams needs a Suspense boundary so the page can still be prerendered
+export default function MatchPage() {
+  return (
+    <Suspense fallback={null}>
+      <MatchOverview />
+    </Suspense>
+  );
+}
+
+function MatchOverview() {
+  const { session, supabase, isLoading: isLoadingAuth } = useAuth();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const inviteParam = searchParams.get('invite');
+
+  const [connections, setConnections] = useState<TasteConnection[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null);
+  const [creatingInvite, setCreatingInvite] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const inviteHandledRef = useRef(false);
+
+  // --- Nav Link Styles (copied from page.tsx for consistency) ---
+  const navLinkBase = "px-4 py-2 rounded-full font-medium smooth-transition text-sm shadow-sm hover:shadow-md";
+  const navLinkSecondary = `${navLinkBase} bg-white text-[rgb(var(--primary-text-soft-rgb))] border border-[rgba(var(--primary-light-rgb),0.5)] hover:bg-[rgba(var(--primary-light-rgb),0.2)]`;
+
+  // Invited visitors without an account sign up first and come back here
+  useEffect(() => {
+    if (isLoadingAuth || session) return;
+    if (inviteParam) stashPendingInvite(inviteParam);
+    router.replace('/auth?next=/match');
+  }, [isLoadingAuth, session, inviteParam, router]);
+
+  const loadConnections = useCallback(async () => {
+    if (!session || !supabase) return;
+    setLoading(true);
+    try {
+      setConnections(await fetchTasteConnections(supabase));
+    } catch (err) {
+      setError(`Failed to load your matches: ${(err as Error).message || 'Unknown error'}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [session, supabase]);
+
+  useEffect(() => {
+    if (!session || !supabase || inviteHandledRef.current) return;
+    inviteHandledRef.current = true;
+    const code = inviteParam || takePendingInvite();
+    const acceptInvite = async () => {
+      if (code) {
+        try {
+          const inviterUsername = await acceptCompatibilityInvite(supabase, code);
+          setNotice(`You're now connected with @${inviterUsername}.`);
+          router.replace('/match', { scroll: false });
+        } catch (err) {
+          setError(`This invite couldn't be used: ${(err as Error).message || 'Unknown error'}`);
+        }
+      }
+      await loadConnections();
+    };
+    acceptInvite();
+  }, [session, supabase, inviteParam, router, loadConnections]);
+
+  const handleCreateInvite = async () => {
+    if (!session?.user?.id) return;
+    setCreatingInvite(true);
+    setError(null);
+    try {
+      const code = await createCompatibilityInvite(supabase, session.user.id);
+      setInviteUrl(`${window.location.origin}/match?invite=${code}`);
+      setCopied(false);
+    } catch (err) {
+      setError(`Could not create an invite link: ${(err as Error).message || 'Unknown error'}`);
+    } finally {
+      setCreatingInvite(false);
+    }
+  };
+
+  const copyInviteUrl = async () => {
+    if (!inviteUrl) return;
+    try {
+      await navigator.clipboard.writeText(inviteUrl);
+      setCopied(true);
+    } catch (err) {
+      console.warn('Clipboard unavailable, the link can still be copied by hand.', err);
+    }
+  };
+
+  if (isLoadingAuth || !session) return null;
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-pink-50 via-rose-50 to-fuchsia-50 text-slate-700">
+      <header className="sticky top-0 z-50 bg-white/80 backdrop-blur-md shadow-sm">
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-4">
+            <Link href="/" className="text-3xl font-bold text-[rgb(var(--primary-rgb))]">ArchiSwipe</Link>
+            <nav className="flex space-x-3 items-center">
+              <Link href="/swipe" className={navLinkSecondary}>
+                <CompassIcon size={18} className="inline mr-1" /> Swipe
+              </Link>
+              <Link href="/profile" className={navLinkSecondary}>
+                <UserIcon size={18} className="inline mr-1" /> Profile
+              </Link>
+            </nav>
+          </div>
+        </div>
+      </header>
+
+      <section className="max-w-3xl mx-auto px-4 py-8 sm:py-12">
+        <h1 className="text-3xl font-bold text-slate-800 mb-2 flex items-center">
+          <UsersIcon size={28} className="mr-2 text-pink-600" /> Architectural Matchmaking
+        </h1>
+        <p className="text-sm text-slate-500 mb-8">See how your taste lines up with a partner, client or friend. Both of you need to keep swiping for the score to mean much.</p>
+
+        {notice && <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg text-green-700">{notice}</div>}
+        {error && <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700 whitespace-pre-wrap">{error}</div>}
+
+        <div className="bg-white rounded-xl p-5 border border-pink-100 shadow-sm mb-10">
+          <h2 className="font-semibold text-slate-800 mb-1 flex items-center"><LinkIcon size={18} className="mr-2 text-pink-500" /> Invite someone to compare</h2>
+          <p className="text-sm text-gray-500 mb-4">Anyone who opens the link and signs in gets connected with you. Each link works once.</p>
+          {inviteUrl ? (
+            <div className="flex items-center gap-2">
+              <label htmlFor="invite-url" className="sr-only">Invite link</label>
+              <input id="invite-url" type="text" readOnly value={inviteUrl} onFocus={e => e.target.select()} className="flex-grow min-w-0 px-3 py-2 border border-gray-300 rounded-lg bg-gray-50 text-sm text-gray-700" />
+              <button type="button" onClick={copyInviteUrl} className="px-4 py-2 bg-pink-600 text-white rounded-full text-sm font-semibold flex items-center hover:bg-pink-700">
+                {copied ? <CheckIcon size={16} className="mr-1" /> : <CopyIcon size={16} className="mr-1" />} {copied ? 'Copied' : 'Copy'}
+              </button>
+            </div>
+          ) : (
+            <button type="button" onClick={handleCreateInvite} disabled={creatingInvite} className="px-5 py-2.5 bg-pink-600 text-white rounded-full font-semibold shadow-md text-sm hover:bg-pink-700 disabled:opacity-60 disabled:cursor-wait">
+              {creatingInvite ? 'Creating link...' : 'Create invite link'}
+            </button>
+          )}
+        </div>
+
+        <h2 className="font-semibold text-slate-700 mb-4 text-lg">Your Matches</h2>
+        {loading ? (
+          <p className="text-gray-500 italic text-sm">Loading matches...</p>
+        ) : connections.length === 0 ? (
+          <p className="text-gray-500 italic text-sm bg-white p-4 rounded-lg shadow-sm border">No one to compare with yet. Send an invite link to get started.</p>
+        ) : (
+          <ul className="space-y-3">
+            {connections.map(connection => (
+              <li key={connection.username}>
+                <Link href={`/match/${encodeURIComponent(connection.username)}`} className="bg-white rounded-xl p-4 border border-gray-200 shadow-sm flex items-center gap-4 hover:shadow-md hover:border-pink-300 transition">
+                  <span className="w-12 h-12 rounded-full bg-pink-100 flex items-center justify-center overflow-hidden flex-shrink-0">
+                    {connection.avatar_url ? <img src={connection.avatar_url} alt="" className="w-full h-full object-cover" /> : <UserIcon className="h-6 w-6 text-pink-400" />}
+                  </span>
+                  <span className="flex-grow min-w-0">
+                    <span className="block font-semibold text-slate-800 truncate">{connection.full_name || connection.username}</span>
+                    <span className="block text-xs text-gray-500">@{connection.username} · connected {formatDistanceToNow(new Date(connection.connected_at), { addSuffix: true })}</span>
+                  </span>
+                  <ChevronRightIcon size={20} className="text-gray-400" />
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </main>
+  );
+}
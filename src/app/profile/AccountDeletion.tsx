@@ -0,0 +1,130 @@
+// src/app/profile/AccountDeletion.tsx
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { useAuth } from '@/app/context/AuthContext';
+import {
+  ACCOUNT_DELETION_GRACE_DAYS,
+  AccountDeletion as PendingDeletion,
+  cancelAccountDeletion,
+  fetchAccountDeletion,
+  requestAccountDeletion,
+} from '@/app/lib/accountDeletion';
+import { AlertTriangle as AlertTriangleIcon, Trash2 as TrashIcon } from 'lucide-react';
+
+interface AccountDeletionProps {
+  // Typed back by the user to confirm; falls back to "DELETE" when they have no username
+  username: string | null;
+}
+
+export const AccountDeletion = ({ username }: AccountDeletionProps) => {
+  const { session } = useAuth();
+  const [deletion, setDeletion] = useState<PendingDeletion | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isConfirming, setIsConfirming] = useState(false);
+  const [confirmText, setConfirmText] = useState('');
+
+  const confirmationPhrase = username || 'DELETE';
+
+  useEffect(() => {
+    if (!session) return;
+    let cancelled = false;
+    const loadDeletion = async () => {
+      try {
+        const pending = await fetchAccountDeletion(session);
+        if (!cancelled) setDeletion(pending);
+      } catch (err) {
+        if (!cancelled) setError(`Could not check your account status: ${(err as Error).message || 'Unknown error'}`);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    loadDeletion();
+    return () => {
+      cancelled = true;
+    };
+  }, [session]);
+
+  const handleRequest = async () => {
+    if (!session || confirmText.trim() !== confirmationPhrase) return;
+    setWorking(true);
+    setError(null);
+    try {
+      setDeletion(await requestAccountDeletion(session));
+      setIsConfirming(false);
+      setConfirmText('');
+    } catch (err) {
+      setError(`Could not schedule deletion: ${(err as Error).message || 'Unknown error'}`);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!session) return;
+    setWorking(true);
+    setError(null);
+    try {
+      setDeletion(await cancelAccountDeletion(session));
+    } catch (err) {
+      setError(`Could not cancel deletion: ${(err as Error).message || 'Unknown error'}`);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  if (loading) return null;
+
+  return (
+    <div className="mt-6 p-4 rounded-lg border border-red-200 bg-red-50/40">
+      <h2 className="text-sm font-medium text-red-700 flex items-center">
+        <AlertTriangleIcon size={16} className="mr-1.5" /> Delete account
+      </h2>
+      {error && <p className="mt-2 text-sm text-red-700">{error}</p>}
+
+      {deletion ? (
+        <div className="mt-2 flex flex-wrap items-center justify-between gap-4">
+          <p className="text-sm text-slate-700">
+            Your account is scheduled for deletion on <strong>{format(new Date(deletion.scheduled_for), 'd MMM yyyy')}</strong>{' '}
+            ({formatDistanceToNow(new Date(deletion.scheduled_for), { addSuffix: true })}). Until then you can change your mind.
+          </p>
+          <button type="button" onClick={handleCancel} disabled={working}
+                  className="px-4 py-2 rounded-full bg-white border border-gray-300 text-sm font-semibold text-slate-700 hover:border-pink-400 hover:text-pink-600 disabled:opacity-60 disabled:cursor-wait">
+            {working ? 'Cancelling...' : 'Keep my account'}
+          </button>
+        </div>
+      ) : isConfirming ? (
+        <div className="mt-2">
+          <p className="text-sm text-slate-700 mb-1">
+            This removes your profile, every swipe, your boards and your avatar, then closes your account. It happens {ACCOUNT_DELETION_GRACE_DAYS} days from now; you can cancel any time before that.
+          </p>
+          <label htmlFor="delete-confirmation" className="block text-xs text-gray-600 mb-1">
+            Type <strong>{confirmationPhrase}</strong> to confirm
+          </label>
+          <div className="flex flex-wrap items-center gap-2">
+            <input id="delete-confirmation" type="text" value={confirmText} onChange={e => setConfirmText(e.target.value)} autoComplete="off"
+                   className="px-3 py-2 border border-gray-300 rounded-lg bg-white text-sm text-gray-700 focus:ring-red-500 focus:border-red-500" />
+            <button type="button" onClick={handleRequest} disabled={working || confirmText.trim() !== confirmationPhrase}
+                    className="px-4 py-2 rounded-full bg-red-600 text-white text-sm font-semibold hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed">
+              {working ? 'Scheduling...' : 'Delete my account'}
+            </button>
+            <button type="button" onClick={() => { setIsConfirming(false); setConfirmText(''); }} disabled={working} className="text-sm text-gray-600 hover:underline">
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="mt-2 flex flex-wrap items-center justify-between gap-4">
+          <p className="text-xs text-gray-500">Permanently remove your account and everything in it after a {ACCOUNT_DELETION_GRACE_DAYS}-day grace period.</p>
+          <button type="button" onClick={() => setIsConfirming(true)}
+                  className="px-4 py-2 rounded-full border border-red-300 bg-white text-red-600 text-sm font-semibold flex items-center hover:bg-red-50">
+            <TrashIcon size={16} className="mr-1.5" /> Delete account
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,194 @@
+// src/app/profile/AvatarCropper.tsx
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { AvatarCrop, loadImageFile, renderAvatar } from '@/app/lib/avatarImage';
+import { X as CloseIcon, ZoomIn as ZoomInIcon, ZoomOut as ZoomOutIcon } from 'lucide-react';
+
+// Size of the on-screen crop window in CSS pixels
+const VIEWPORT_SIZE = 288;
+const MAX_ZOOM = 3;
+const KEYBOARD_PAN_STEP = 10;
+
+interface Offset {
+  x: number;
+  y: number;
+}
+
+interface AvatarCropperProps {
+  file: File;
+  onCancel: () => void;
+  onConfirm: (avatar: Blob) => void;
+}
+
+// Keeps the scaled image covering the whole viewport so the crop never includes empty space
+const clampOffset = (offset: Offset, image: HTMLImageElement, scale: number): Offset => ({
+  x: Math.min(0, Math.max(VIEWPORT_SIZE - image.naturalWidth * scale, offset.x)),
+  y: Math.min(0, Math.max(VIEWPORT_SIZE - image.naturalHeight * scale, offset.y)),
+});
+
+export const AvatarCropper = ({ file, onCancel, onConfirm }: AvatarCropperProps) => {
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const [offset, setOffset] = useState<Offset>({ x: 0, y: 0 });
+  const [processing, setProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const dragRef = useRef<{ pointerId: number; startX: number; startY: number; origin: Offset } | null>(null);
+  const cancelButtonRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(file);
+    setPreviewUrl(url);
+    let cancelled = false;
+    loadImageFile(file)
+      .then(loaded => {
+        if (cancelled) return;
+        const baseScale = VIEWPORT_SIZE / Math.min(loaded.naturalWidth, loaded.naturalHeight);
+        setImage(loaded);
+        setZoom(1);
+        setOffset({
+          x: (VIEWPORT_SIZE - loaded.naturalWidth * baseScale) / 2,
+          y: (VIEWPORT_SIZE - loaded.naturalHeight * baseScale) / 2,
+        });
+      })
+      .catch(err => {
+        if (!cancelled) setError((err as Error).message);
+      });
+    return () => {
+      cancelled = true;
+      URL.revokeObjectURL(url);
+    };
+  }, [file]);
+
+  useEffect(() => {
+    const previouslyFocused = document.activeElement as HTMLElement | null;
+    cancelButtonRef.current?.focus();
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onCancel();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      previouslyFocused?.focus();
+    };
+  }, [onCancel]);
+
+  const baseScale = image ? VIEWPORT_SIZE / Math.min(image.naturalWidth, image.naturalHeight) : 1;
+  const scale = baseScale * zoom;
+
+  // Zooms around the centre of the viewport rather than the image's top-left corner
+  const changeZoom = (nextZoom: number) => {
+    if (!image) return;
+    const clampedZoom = Math.min(MAX_ZOOM, Math.max(1, nextZoom));
+    const nextScale = baseScale * clampedZoom;
+    const centre = VIEWPORT_SIZE / 2;
+    setOffset(prev => clampOffset({
+      x: centre - ((centre - prev.x) / scale) * nextScale,
+      y: centre - ((centre - prev.y) / scale) * nextScale,
+    }, image, nextScale));
+    setZoom(clampedZoom);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!image || processing) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { pointerId: e.pointerId, startX: e.clientX, startY: e.clientY, origin: offset };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!image || !drag || drag.pointerId !== e.pointerId) return;
+    setOffset(clampOffset({ x: drag.origin.x + e.clientX - drag.startX, y: drag.origin.y + e.clientY - drag.startY }, image, scale));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (dragRef.current?.pointerId === e.pointerId) dragRef.current = null;
+  };
+
+  const handleViewportKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (!image) return;
+    const moves: Record<string, Offset> = {
+      ArrowLeft: { x: KEYBOARD_PAN_STEP, y: 0 }, ArrowRight: { x: -KEYBOARD_PAN_STEP, y: 0 },
+      ArrowUp: { x: 0, y: KEYBOARD_PAN_STEP }, ArrowDown: { x: 0, y: -KEYBOARD_PAN_STEP },
+    };
+    const move = moves[e.key];
+    if (!move) return;
+    e.preventDefault();
+    setOffset(prev => clampOffset({ x: prev.x + move.x, y: prev.y + move.y }, image, scale));
+  };
+
+  const handleConfirm = async () => {
+    if (!image) return;
+    const crop: AvatarCrop = { x: -offset.x / scale, y: -offset.y / scale, size: VIEWPORT_SIZE / scale };
+    setProcessing(true);
+    setError(null);
+    try {
+      onConfirm(await renderAvatar(image, crop));
+    } catch (err) {
+      setError((err as Error).message || 'The image could not be prepared.');
+      setProcessing(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4">
+      <div aria-hidden="true" className="absolute inset-0 bg-black/70" onClick={processing ? undefined : onCancel} />
+      <div role="dialog" aria-modal="true" aria-labelledby="avatar-cropper-title" className="relative w-full max-w-sm bg-white rounded-2xl shadow-2xl p-5">
+        <button type="button" onClick={onCancel} disabled={processing} aria-label="Close" className="absolute top-3 right-3 p-1.5 rounded-full text-gray-500 hover:bg-gray-100">
+          <CloseIcon aria-hidden="true" size={18} />
+        </button>
+        <h2 id="avatar-cropper-title" className="text-lg font-bold text-gray-800 mb-1">Crop your avatar</h2>
+        <p className="text-xs text-gray-500 mb-4">Drag or use the arrow keys to position, and zoom to frame it.</p>
+
+        <div
+          tabIndex={0}
+          role="group"
+          aria-label="Avatar crop area"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onKeyDown={handleViewportKeyDown}
+          className="relative mx-auto overflow-hidden rounded-lg bg-gray-900 touch-none select-none cursor-move focus:outline-none focus-visible:ring-2 focus-visible:ring-pink-400"
+          style={{ width: VIEWPORT_SIZE, height: VIEWPORT_SIZE }}
+        >
+          {image && previewUrl && (
+            <img
+              src={previewUrl}
+              alt=""
+              draggable={false}
+              className="absolute top-0 left-0 max-w-none pointer-events-none"
+              style={{ width: image.naturalWidth * scale, height: image.naturalHeight * scale, transform: `translate(${offset.x}px, ${offset.y}px)` }}
+            />
+          )}
+          {/* The avatar is shown as a circle, so preview that shape over the square crop */}
+          <div aria-hidden="true" className="absolute inset-0 rounded-full pointer-events-none shadow-[0_0_0_999px_rgba(0,0,0,0.45)]" />
+          {!image && !error && <p className="absolute inset-0 flex items-center justify-center text-sm text-white/70">Loading image...</p>}
+        </div>
+
+        <div className="flex items-center gap-2 mt-4">
+          <button type="button" onClick={() => changeZoom(zoom - 0.25)} disabled={!image || zoom <= 1} aria-label="Zoom out" className="p-1.5 rounded-full text-gray-600 hover:bg-gray-100 disabled:opacity-40">
+            <ZoomOutIcon aria-hidden="true" size={18} />
+          </button>
+          <label htmlFor="avatar-zoom" className="sr-only">Zoom</label>
+          <input id="avatar-zoom" type="range" min={1} max={MAX_ZOOM} step={0.01} value={zoom} disabled={!image} onChange={e => changeZoom(Number(e.target.value))} className="flex-grow accent-pink-500" />
+          <button type="button" onClick={() => changeZoom(zoom + 0.25)} disabled={!image || zoom >= MAX_ZOOM} aria-label="Zoom in" className="p-1.5 rounded-full text-gray-600 hover:bg-gray-100 disabled:opacity-40">
+            <ZoomInIcon aria-hidden="true" size={18} />
+          </button>
+        </div>
+
+        {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+
+        <div className="flex justify-end gap-2 mt-5">
+          <button ref={cancelButtonRef} type="button" onClick={onCancel} disabled={processing} className="px-4 py-2 rounded-full border border-gray-300 text-sm font-semibold text-gray-600 hover:bg-gray-50">
+            Cancel
+          </button>
+          <button type="button" onClick={handleConfirm} disabled={!image || processing} className="px-4 py-2 rounded-full bg-pink-600 text-white text-sm font-semibold hover:bg-pink-700 disabled:opacity-60 disabled:cursor-wait">
+            {processing ? 'Preparing...' : 'Use this photo'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
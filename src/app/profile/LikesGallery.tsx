@@ -0,0 +1,333 @@
+// src/app/profile/LikesGallery.tsx
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { AnimatePresence, motion, useReducedMotion } from 'framer-motion';
+import { formatDistanceToNow } from 'date-fns';
+import { useAuth } from '@/app/context/AuthContext';
+import { BoardPicker } from '@/app/boards/BoardPicker';
+import { removeImageFromAllBoards } from '@/app/lib/boards';
+import { getHouseImageUrl } from '@/app/lib/houseImages';
+import { removeQueuedSwipe } from '@/app/lib/swipeQueue';
+import {
+  Heart as HeartIcon,
+  HeartOff as HeartOffIcon,
+  Star as StarIcon,
+  X as CloseIcon,
+  ChevronLeft as ChevronLeftIcon,
+  ChevronRight as ChevronRightIcon,
+  FolderPlus as FolderPlusIcon,
+} from 'lucide-react';
+
+// --- Types ---
+// A like as returned by `swipes` joined to `images` and its style
+interface LikedImage {
+  id: number;
+  image_id: number;
+  is_super_like: boolean;
+  created_at: string;
+  images: {
+    storage_path: string;
+    description: string | null;
+    architect: string | null;
+    year_built: number | null;
+    location: string | null;
+    styles: { name: string } | null;
+  };
+}
+
+type LikedWithin = 'all' | 'week' | 'month' | 'year';
+
+const LIKES_PAGE_SIZE = 12;
+const LIKED_WITHIN_OPTIONS: { id: LikedWithin; label: string; days: number | null }[] = [
+  { id: 'all', label: 'Any time', days: null },
+  { id: 'week', label: 'Past week', days: 7 },
+  { id: 'month', label: 'Past month', days: 30 },
+  { id: 'year', label: 'Past year', days: 365 },
+];
+const THUMBNAIL_WIDTH = 400;
+
+interface LikesGalleryProps {
+  availableStyles: string[];
+}
+
+export const LikesGallery = ({ availableStyles }: LikesGalleryProps) => {
+  const { session, supabase } = useAuth();
+  const [likes, setLikes] = useState<LikedImage[]>([]);
+  const [totalLikes, setTotalLikes] = useState(0);
+  const [page, setPage] = useState(0);
+  const [styleFilter, setStyleFilter] = useState('');
+  const [likedWithin, setLikedWithin] = useState<LikedWithin>('all');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [openLike, setOpenLike] = useState<LikedImage | null>(null);
+  const [retractingId, setRetractingId] = useState<number | null>(null);
+  const requestIdRef = useRef(0);
+
+  const pageCount = Math.max(1, Math.ceil(totalLikes / LIKES_PAGE_SIZE));
+
+  const fetchLikes = useCallback(async () => {
+    if (!session?.user?.id || !supabase) return;
+    const requestId = ++requestIdRef.current;
+    setLoading(true);
+    setError(null);
+    try {
+      // !inner so the style filter drops likes instead of just blanking their style
+      let query = supabase
+        .from('swipes')
+        .select(
+          `id, image_id, is_super_like, created_at,
+           images!inner(storage_path, description, architect, year_built, location, styles${styleFilter ? '!inner' : ''}(name))`,
+          { count: 'exact' }
+        )
+        .eq('user_id', session.user.id)
+        .eq('direction', true);
+      if (styleFilter) query = query.eq('images.styles.name', styleFilter);
+      const days = LIKED_WITHIN_OPTIONS.find(option => option.id === likedWithin)?.days;
+      if (days) query = query.gte('created_at', new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString());
+
+      const from = page * LIKES_PAGE_SIZE;
+      const { data, count, error: likesError } = await query
+        .order('created_at', { ascending: false })
+        .range(from, from + LIKES_PAGE_SIZE - 1);
+      // Filters or page changed while this request was in flight
+      if (requestId !== requestIdRef.current) return;
+      if (likesError) throw likesError;
+      setLikes((data || []) as unknown as LikedImage[]);
+      setTotalLikes(count || 0);
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return;
+      setError(`Failed to load your likes: ${(err as Error).message || 'Unknown error'}`);
+      setLikes([]);
+    } finally {
+      if (requestId === requestIdRef.current) setLoading(false);
+    }
+  }, [session, supabase, page, styleFilter, likedWithin]);
+
+  useEffect(() => {
+    fetchLikes();
+  }, [fetchLikes]);
+
+  // A retraction can leave the last page empty
+  useEffect(() => {
+    if (!loading && page > 0 && page >= pageCount) setPage(pageCount - 1);
+  }, [loading, page, pageCount]);
+
+  const closeViewer = useCallback(() => setOpenLike(null), []);
+
+  // Deleting the swipe returns the building to the user's deck rather than recording a pass.
+  // A copy still waiting in the offline queue is dropped too, or the next sync would bring the like back.
+  const retractLike = async (like: LikedImage) => {
+    if (!session?.user?.id) return;
+    setRetractingId(like.id);
+    setError(null);
+    try {
+      removeQueuedSwipe(session.user.id, like.image_id);
+      await removeImageFromAllBoards(supabase, session.user.id, like.image_id);
+      const { error: deleteError } = await supabase
+        .from('swipes')
+        .delete()
+        .eq('id', like.id)
+        .eq('user_id', session.user.id);
+      if (deleteError) throw deleteError;
+      setOpenLike(null);
+      await fetchLikes();
+    } catch (err) {
+      setError(`Could not remove this like: ${(err as Error).message || 'Unknown error'}`);
+    } finally {
+      setRetractingId(null);
+    }
+  };
+
+  const selectClasses = "px-3 py-2 border border-gray-300 rounded-lg bg-white text-sm text-gray-700 focus:ring-pink-500 focus:border-pink-500";
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-end justify-between gap-4 mb-6">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-800">Buildings You Liked</h2>
+          <p className="text-sm text-gray-500">{totalLikes.toLocaleString()} {totalLikes === 1 ? 'like' : 'likes'}{styleFilter || likedWithin !== 'all' ? ' matching your filters' : ''}</p>
+        </div>
+        <div className="flex flex-wrap gap-3">
+          <label className="text-xs font-medium text-gray-500 flex flex-col">
+            Style
+            <select value={styleFilter} onChange={e => { setStyleFilter(e.target.value); setPage(0); }} className={`${selectClasses} mt-1`}>
+              <option value="">All styles</option>
+              {availableStyles.map(style => <option key={style} value={style}>{style}</option>)}
+            </select>
+          </label>
+          <label className="text-xs font-medium text-gray-500 flex flex-col">
+            Liked
+            <select value={likedWithin} onChange={e => { setLikedWithin(e.target.value as LikedWithin); setPage(0); }} className={`${selectClasses} mt-1`}>
+              {LIKED_WITHIN_OPTIONS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+            </select>
+          </label>
+        </div>
+      </div>
+
+      {error && <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700 whitespace-pre-wrap">{error}</div>}
+
+      {loading && likes.length === 0 ? (
+        <div className="text-center py-10">
+          <svg className="animate-spin h-8 w-8 text-pink-500 mx-auto" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+          </svg>
+          <p className="mt-2 text-gray-600">Loading your likes...</p>
+        </div>
+      ) : likes.length === 0 ? (
+        !error && (
+          <p className="text-gray-500 italic text-sm bg-white p-4 rounded-lg shadow-sm border">
+            {styleFilter || likedWithin !== 'all' ? 'No likes match these filters.' : "You haven't liked any buildings yet. Start swiping!"}
+          </p>
+        )
+      ) : (
+        <ul className={`grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4 ${loading ? 'opacity-60' : ''} transition-opacity`}>
+          {likes.map(like => {
+            const thumbnailUrl = getHouseImageUrl(supabase, like.images.storage_path, THUMBNAIL_WIDTH);
+            const styleName = like.images.styles?.name;
+            return (
+              <li key={like.id}>
+                <button
+                  type="button"
+                  onClick={() => setOpenLike(like)}
+                  aria-label={`View ${styleName ? `${styleName} building` : 'building'} full size`}
+                  className="group relative block w-full aspect-square rounded-xl overflow-hidden bg-pink-50 shadow-sm border border-gray-200 hover:shadow-md transition-shadow focus:outline-none focus-visible:ring-4 focus-visible:ring-pink-300"
+                >
+                  {thumbnailUrl && <img src={thumbnailUrl} alt="" loading="lazy" className="w-full h-full object-cover group-hover:scale-105 motion-reduce:group-hover:scale-100 transition-transform duration-300" />}
+                  {like.is_super_like && (
+                    <span className="absolute top-2 right-2 p-1.5 rounded-full bg-sky-500 text-white shadow" title="Super liked">
+                      <StarIcon aria-hidden="true" size={14} fill="currentColor" />
+                    </span>
+                  )}
+                  <span className="absolute inset-x-0 bottom-0 bg-gradient-to-t from-black/70 to-transparent px-3 pt-6 pb-2 text-left">
+                    <span className="block text-white text-sm font-semibold truncate">{styleName || 'Unknown style'}</span>
+                    <span className="block text-white/80 text-xs">{formatDistanceToNow(new Date(like.created_at), { addSuffix: true })}</span>
+                  </span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {pageCount > 1 && (
+        <nav aria-label="Likes pages" className="flex items-center justify-center gap-4 mt-8">
+          <button type="button" onClick={() => setPage(prev => prev - 1)} disabled={page === 0 || loading} className="p-2 rounded-full bg-white border border-gray-300 text-gray-600 hover:bg-pink-50 disabled:opacity-40 disabled:cursor-not-allowed" aria-label="Previous page">
+            <ChevronLeftIcon size={18} />
+          </button>
+          <span className="text-sm text-gray-600">Page {page + 1} of {pageCount}</span>
+          <button type="button" onClick={() => setPage(prev => prev + 1)} disabled={page >= pageCount - 1 || loading} className="p-2 rounded-full bg-white border border-gray-300 text-gray-600 hover:bg-pink-50 disabled:opacity-40 disabled:cursor-not-allowed" aria-label="Next page">
+            <ChevronRightIcon size={18} />
+          </button>
+        </nav>
+      )}
+
+      <AnimatePresence>
+        {openLike && (
+          <LikedImageViewer
+            like={openLike}
+            imageUrl={getHouseImageUrl(supabase, openLike.images.storage_path)}
+            isRetracting={retractingId === openLike.id}
+            onRetract={() => retractLike(openLike)}
+            onClose={closeViewer}
+          />
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+interface LikedImageViewerProps {
+  like: LikedImage;
+  imageUrl: string | null;
+  isRetracting: boolean;
+  onRetract: () => void;
+  onClose: () => void;
+}
+
+const LikedImageViewer = ({ like, imageUrl, isRetracting, onRetract, onClose }: LikedImageViewerProps) => {
+  const prefersReducedMotion = useReducedMotion();
+  const closeButtonRef = useRef<HTMLButtonElement>(null);
+  const styleName = like.images.styles?.name;
+  const [isBoardPickerOpen, setIsBoardPickerOpen] = useState(false);
+
+  useEffect(() => {
+    const previouslyFocused = document.activeElement as HTMLElement | null;
+    closeButtonRef.current?.focus();
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      previouslyFocused?.focus();
+    };
+  }, [onClose]);
+
+  const details = [
+    like.images.architect && `by ${like.images.architect}`,
+    like.images.year_built && `${like.images.year_built}`,
+    like.images.location,
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4">
+      <motion.div aria-hidden="true" className="absolute inset-0 bg-black/80" initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} onClick={onClose} />
+      <motion.div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="liked-image-title"
+        className="relative w-full max-w-4xl max-h-full flex flex-col bg-white rounded-2xl shadow-2xl overflow-hidden"
+        initial={prefersReducedMotion ? { opacity: 0 } : { opacity: 0, scale: 0.95 }}
+        animate={prefersReducedMotion ? { opacity: 1 } : { opacity: 1, scale: 1 }}
+        exit={prefersReducedMotion ? { opacity: 0 } : { opacity: 0, scale: 0.95 }}
+        transition={{ duration: 0.2 }}
+      >
+        <button ref={closeButtonRef} type="button" onClick={onClose} aria-label="Close" className="absolute top-3 right-3 z-10 p-2 rounded-full bg-black/40 text-white hover:bg-black/60 focus:outline-none focus-visible:ring-2 focus-visible:ring-pink-300">
+          <CloseIcon aria-hidden="true" size={20} />
+        </button>
+        <div className="bg-black flex items-center justify-center min-h-0 flex-shrink">
+          {imageUrl
+            ? <img src={imageUrl} alt={like.images.description || `${styleName || 'Liked'} building`} className="max-h-[70vh] w-auto object-contain" />
+            : <p className="text-white/70 py-20">Image unavailable</p>}
+        </div>
+        <div className="p-5 flex flex-wrap items-center justify-between gap-4">
+          <div className="min-w-0">
+            <h3 id="liked-image-title" className="text-lg font-bold text-gray-800 flex items-center">
+              {like.is_super_like ? <StarIcon aria-hidden="true" size={18} className="mr-1.5 text-sky-500" fill="currentColor" /> : <HeartIcon aria-hidden="true" size={18} className="mr-1.5 text-pink-500" fill="currentColor" />}
+              {styleName || 'Unknown style'}
+            </h3>
+            {details && <p className="text-sm text-gray-600">{details}</p>}
+            <p className="text-xs text-gray-400 mt-0.5">{like.is_super_like ? 'Super liked' : 'Liked'} {formatDistanceToNow(new Date(like.created_at), { addSuffix: true })}</p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={() => setIsBoardPickerOpen(open => !open)}
+              aria-expanded={isBoardPickerOpen}
+              className="px-4 py-2 rounded-full border border-pink-200 text-pink-600 bg-pink-50 hover:bg-pink-100 font-semibold text-sm flex items-center"
+            >
+              <FolderPlusIcon aria-hidden="true" size={16} className="mr-1.5" /> Save to board
+            </button>
+            <button
+              type="button"
+              onClick={onRetract}
+              disabled={isRetracting}
+              className="px-4 py-2 rounded-full border border-red-200 text-red-600 bg-red-50 hover:bg-red-100 font-semibold text-sm flex items-center disabled:opacity-60 disabled:cursor-wait"
+            >
+              <HeartOffIcon aria-hidden="true" size={16} className="mr-1.5" />
+              {isRetracting ? 'Removing...' : 'Remove like'}
+            </button>
+          </div>
+        </div>
+        {isBoardPickerOpen && (
+          <div className="px-5 pb-4 flex justify-end">
+            <BoardPicker imageId={like.image_id} />
+          </div>
+        )}
+        <p className="px-5 pb-4 -mt-2 text-xs text-gray-400">Removed buildings may show up in your swipe deck again.</p>
+      </motion.div>
+    </div>
+  );
+};
@@ -0,0 +1,226 @@
+// src/app/profile/SwipeHistory.tsx
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { useAuth } from '@/app/context/AuthContext';
+import { removeImageFromAllBoards } from '@/app/lib/boards';
+import { getHouseImageUrl } from '@/app/lib/houseImages';
+import { removeQueuedSwipe } from '@/app/lib/swipeQueue';
+import {
+  Heart as HeartIcon,
+  Repeat as FlipIcon,
+  Star as StarIcon,
+  X as XIcon,
+} from 'lucide-react';
+
+// --- Types ---
+interface HistorySwipe {
+  id: number;
+  image_id: number;
+  direction: boolean;
+  is_super_like: boolean;
+  created_at: string;
+  images: {
+    storage_path: string;
+    styles: { name: string } | null;
+  };
+}
+
+type VerdictFilter = 'all' | 'liked' | 'passed';
+
+const HISTORY_PAGE_SIZE = 20;
+const THUMBNAIL_WIDTH = 160;
+
+interface SwipeHistoryProps {
+  availableStyles: string[];
+  // Called after a verdict is flipped so summary stats can be refreshed
+  onVerdictChanged: () => void;
+}
+
+export const SwipeHistory = ({ availableStyles, onVerdictChanged }: SwipeHistoryProps) => {
+  const { session, supabase } = useAuth();
+  const [swipes, setSwipes] = useState<HistorySwipe[]>([]);
+  const [hasMore, setHasMore] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [verdictFilter, setVerdictFilter] = useState<VerdictFilter>('all');
+  const [styleFilter, setStyleFilter] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [flippingId, setFlippingId] = useState<number | null>(null);
+  const requestIdRef = useRef(0);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  const loadPage = useCallback(async (offset: number) => {
+    if (!session?.user?.id || !supabase) return;
+    const requestId = ++requestIdRef.current;
+    setLoading(true);
+    setError(null);
+    try {
+      let query = supabase
+        .from('swipes')
+        .select(`id, image_id, direction, is_super_like, created_at, images!inner(storage_path, styles${styleFilter ? '!inner' : ''}(name))`)
+        .eq('user_id', session.user.id);
+      if (verdictFilter !== 'all') query = query.eq('direction', verdictFilter === 'liked');
+      if (styleFilter) query = query.eq('images.styles.name', styleFilter);
+      // Date inputs are local calendar days; the range includes the whole "to" day
+      if (fromDate) query = query.gte('created_at', new Date(`${fromDate}T00:00:00`).toISOString());
+      if (toDate) {
+        const dayAfter = new Date(`${toDate}T00:00:00`);
+        dayAfter.setDate(dayAfter.getDate() + 1);
+        query = query.lt('created_at', dayAfter.toISOString());
+      }
+      const { data, error: historyError } = await query
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .range(offset, offset + HISTORY_PAGE_SIZE - 1);
+      // Filters changed while this request was in flight
+      if (requestId !== requestIdRef.current) return;
+      if (historyError) throw historyError;
+      const page = (data || []) as unknown as HistorySwipe[];
+      setSwipes(prev => (offset === 0 ? page : [...prev, ...page.filter(swipe => !prev.some(existing => existing.id === swipe.id))]));
+      setHasMore(page.length === HISTORY_PAGE_SIZE);
+    } catch (err) {
+      if (requestId !== requestIdRef.current) return;
+      setError(`Failed to load your swipe history: ${(err as Error).message || 'Unknown error'}`);
+      setHasMore(false);
+    } finally {
+      if (requestId === requestIdRef.current) setLoading(false);
+    }
+  }, [session, supabase, verdictFilter, styleFilter, fromDate, toDate]);
+
+  // Any filter change starts the list over
+  useEffect(() => {
+    setSwipes([]);
+    setHasMore(true);
+    loadPage(0);
+  }, [loadPage]);
+
+  // Infinite scroll: load the next page when the sentinel below the list comes into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || loading) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0]?.isIntersecting) loadPage(swipes.length);
+    }, { rootMargin: '200px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loading, swipes.length, loadPage]);
+
+  // A flipped like becomes a plain pass and vice versa; super-like status is not carried over.
+  // Like a retracted like, a flipped one also leaves the user's boards.
+  const flipVerdict = async (swipe: HistorySwipe) => {
+    if (!session?.user?.id) return;
+    setFlippingId(swipe.id);
+    setError(null);
+    try {
+      // An unsynced verdict still in the offline queue would otherwise overwrite the flip
+      removeQueuedSwipe(session.user.id, swipe.image_id);
+      if (swipe.direction) await removeImageFromAllBoards(supabase, session.user.id, swipe.image_id);
+      const flipped = { direction: !swipe.direction, is_super_like: false };
+      const { error: updateError } = await supabase
+        .from('swipes')
+        .update(flipped)
+        .eq('id', swipe.id)
+        .eq('user_id', session.user.id);
+      if (updateError) throw updateError;
+      setSwipes(prev => (verdictFilter === 'all'
+        ? prev.map(existing => (existing.id === swipe.id ? { ...existing, ...flipped } : existing))
+        : prev.filter(existing => existing.id !== swipe.id)));
+      onVerdictChanged();
+    } catch (err) {
+      setError(`Could not change this verdict: ${(err as Error).message || 'Unknown error'}`);
+    } finally {
+      setFlippingId(null);
+    }
+  };
+
+  const isFiltered = verdictFilter !== 'all' || !!styleFilter || !!fromDate || !!toDate;
+  const controlClasses = "mt-1 px-3 py-2 border border-gray-300 rounded-lg bg-white text-sm text-gray-700 focus:ring-pink-500 focus:border-pink-500";
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-3 mb-5">
+        <label className="text-xs font-medium text-gray-500 flex flex-col">
+          Verdict
+          <select value={verdictFilter} onChange={e => setVerdictFilter(e.target.value as VerdictFilter)} className={controlClasses}>
+            <option value="all">All swipes</option>
+            <option value="liked">Liked</option>
+            <option value="passed">Passed</option>
+          </select>
+        </label>
+        <label className="text-xs font-medium text-gray-500 flex flex-col">
+          Style
+          <select value={styleFilter} onChange={e => setStyleFilter(e.target.value)} className={controlClasses}>
+            <option value="">All styles</option>
+            {availableStyles.map(style => <option key={style} value={style}>{style}</option>)}
+          </select>
+        </label>
+        <label className="text-xs font-medium text-gray-500 flex flex-col">
+          From
+          <input type="date" value={fromDate} max={toDate || undefined} onChange={e => setFromDate(e.target.value)} className={controlClasses} />
+        </label>
+        <label className="text-xs font-medium text-gray-500 flex flex-col">
+          To
+          <input type="date" value={toDate} min={fromDate || undefined} onChange={e => setToDate(e.target.value)} className={controlClasses} />
+        </label>
+        {isFiltered && (
+          <button
+            type="button"
+            onClick={() => { setVerdictFilter('all'); setStyleFilter(''); setFromDate(''); setToDate(''); }}
+            className="self-end mb-2 text-sm text-pink-600 hover:underline"
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      {error && <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700 whitespace-pre-wrap">{error}</div>}
+
+      {swipes.length === 0 && !loading && !error ? (
+        <p className="text-gray-500 italic text-sm bg-white p-4 rounded-lg shadow-sm border">
+          {isFiltered ? 'No swipes match these filters.' : 'No swipes yet.'}
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {swipes.map(swipe => {
+            const thumbnailUrl = getHouseImageUrl(supabase, swipe.images.storage_path, THUMBNAIL_WIDTH);
+            const styleName = swipe.images.styles?.name || 'Unknown style';
+            return (
+              <li key={swipe.id} className="bg-white rounded-lg p-3 border border-gray-200 shadow-sm flex items-center gap-3">
+                <span className="w-14 h-14 rounded-md bg-pink-50 overflow-hidden flex-shrink-0">
+                  {thumbnailUrl && <img src={thumbnailUrl} alt="" loading="lazy" className="w-full h-full object-cover" />}
+                </span>
+                <span className={`w-8 h-8 rounded-lg flex-shrink-0 flex items-center justify-center ${swipe.is_super_like ? 'bg-sky-100' : swipe.direction ? 'bg-pink-100' : 'bg-red-100'}`}>
+                  {swipe.is_super_like ? <StarIcon aria-hidden="true" className="h-4 w-4 text-sky-500" />
+                    : swipe.direction ? <HeartIcon aria-hidden="true" className="h-4 w-4 text-pink-500" />
+                    : <XIcon aria-hidden="true" className="h-4 w-4 text-red-500" />}
+                </span>
+                <span className="flex-grow min-w-0">
+                  <span className="block text-sm font-medium text-slate-700 truncate">
+                    {swipe.is_super_like ? 'Super-liked' : swipe.direction ? 'Liked' : 'Passed on'} <span className="text-pink-600">{styleName}</span>
+                  </span>
+                  <span className="block text-xs text-gray-500">{format(new Date(swipe.created_at), 'd MMM yyyy, HH:mm')}</span>
+                </span>
+                <button
+                  type="button"
+                  onClick={() => flipVerdict(swipe)}
+                  disabled={flippingId === swipe.id}
+                  className="px-3 py-1.5 rounded-full border border-gray-300 text-xs font-medium text-gray-600 hover:border-pink-400 hover:text-pink-600 flex items-center flex-shrink-0 disabled:opacity-60 disabled:cursor-wait"
+                >
+                  <FlipIcon aria-hidden="true" size={14} className="mr-1" />
+                  {flippingId === swipe.id ? 'Saving...' : swipe.direction ? 'Change to pass' : 'Change to like'}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div ref={sentinelRef} aria-hidden="true" className="h-1" />
+      {loading && <p className="text-center text-sm text-gray-500 py-4">Loading swipes...</p>}
+      {!hasMore && swipes.length > 0 && <p className="text-center text-xs text-gray-400 py-4">That&apos;s every swipe.</p>}
+    </div>
+  );
+};
@@ -0,0 +1,109 @@
+// src/app/profile/TasteProfileReport.tsx
+'use client';
+
+import React from 'react';
+import { AffinityConfidence, buildTasteProfile, MEDIUM_CONFIDENCE_SWIPES } from '@/app/lib/tasteProfile';
+import type { StyleAffinity } from '@/app/lib/deckRanking';
+import { Dna as DnaIcon } from 'lucide-react';
+
+const CONFIDENCE_LEVELS: Record<AffinityConfidence, { dots: number; label: string }> = {
+  low: { dots: 1, label: 'Low confidence' },
+  medium: { dots: 2, label: 'Medium confidence' },
+  high: { dots: 3, label: 'High confidence' },
+};
+
+const ConfidenceDots = ({ confidence, totalSeen }: { confidence: AffinityConfidence; totalSeen: number }) => {
+  const { dots, label } = CONFIDENCE_LEVELS[confidence];
+  return (
+    <span className="inline-flex items-center space-x-0.5" title={`${label}: based on ${totalSeen} ${totalSeen === 1 ? 'swipe' : 'swipes'}`}>
+      {[1, 2, 3].map(level => (
+        <span key={level} aria-hidden="true" className={`w-1.5 h-1.5 rounded-full ${level <= dots ? 'bg-pink-500' : 'bg-gray-300'}`} />
+      ))}
+      <span className="sr-only">{label}, based on {totalSeen} swipes</span>
+    </span>
+  );
+};
+
+interface TasteProfileReportProps {
+  styleRatios: StyleAffinity[];
+  // Set when showing someone else's profile, e.g. on their public page
+  ownerName?: string;
+}
+
+export const TasteProfileReport = ({ styleRatios, ownerName }: TasteProfileReportProps) => {
+  const profile = buildTasteProfile(styleRatios);
+  const likeShare = `${(profile.overallLikeRatio * 100).toFixed(0)}%`;
+  const summary = ownerName
+    ? `${ownerName} likes ${likeShare} of what they see overall.${profile.leastDrawnTo ? ` Least drawn to ${profile.leastDrawnTo}.` : ''}`
+    : `You like ${likeShare} of what you see overall.${profile.leastDrawnTo ? ` You're least drawn to ${profile.leastDrawnTo}.` : ''}`;
+
+  return (
+    <div className="mb-10">
+      <h3 className="font-semibold text-slate-700 mb-4 text-lg flex items-center">
+        <DnaIcon size={20} className="mr-2 text-pink-600" />
+        {ownerName ? `${ownerName}'s Taste Profile` : 'Your Taste Profile'}
+      </h3>
+
+      {profile.affinities.length === 0 ? (
+        <p className="text-gray-500 italic text-sm bg-white p-4 rounded-lg shadow-sm border">
+          {ownerName ? `${ownerName} hasn't swiped enough for a taste profile yet.` : 'No style interaction data yet. Keep swiping to build your taste profile!'}
+        </p>
+      ) : (
+        <div className="bg-white rounded-xl p-5 border border-gray-200 shadow-sm">
+          <div className="mb-6 p-4 rounded-lg bg-gradient-to-r from-pink-50 to-rose-50 border border-pink-100">
+            <p className="text-xs uppercase tracking-wide text-pink-500 font-semibold mb-1">Architectural archetype</p>
+            <p className="text-xl font-bold text-slate-800">
+              {profile.archetype || 'Still taking shape'}
+            </p>
+            <p className="text-sm text-gray-600 mt-1">
+              {profile.archetype
+                ? summary
+                : ownerName ? 'Not enough swipes per style to describe yet.' : 'Swipe a few more buildings in each style and we\'ll describe your taste.'}
+            </p>
+          </div>
+
+          <div className="flex justify-between text-xs text-gray-400 mb-2 px-1">
+            <span>Less than {ownerName ? 'their' : 'your'} average</span>
+            <span>More than {ownerName ? 'their' : 'your'} average</span>
+          </div>
+          <ul className="space-y-2.5">
+            {profile.affinities.map(score => {
+              const width = `${Math.abs(score.affinity) * 50}%`;
+              const isLowConfidence = score.confidence === 'low';
+              return (
+                <li key={score.styleName} className={isLowConfidence ? 'opacity-60' : ''}>
+                  <div className="flex justify-between items-center text-sm mb-1">
+                    <span className="font-medium text-slate-800 flex items-center gap-2">
+                      {score.styleName}
+                      <ConfidenceDots confidence={score.confidence} totalSeen={score.totalSeenInStyle} />
+                    </span>
+                    <span className="text-xs text-gray-500">
+                      {score.totalLikedInStyle} of {score.totalSeenInStyle} liked
+                    </span>
+                  </div>
+                  <div
+                    role="img"
+                    aria-label={`${score.styleName}: affinity ${Math.round(score.affinity * 100)} on a scale from -100 to 100`}
+                    className="relative h-3 bg-gray-100 rounded-full overflow-hidden"
+                  >
+                    <span aria-hidden="true" className="absolute inset-y-0 left-1/2 w-px bg-gray-400 z-10" />
+                    <span
+                      aria-hidden="true"
+                      className={`absolute inset-y-0 ${score.affinity >= 0 ? 'left-1/2 bg-pink-500 rounded-r-full' : 'right-1/2 bg-red-400 rounded-l-full'}`}
+                      style={{ width }}
+                    />
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+          {profile.affinities.some(score => score.confidence === 'low') && (
+            <p className="text-xs text-gray-400 mt-4">
+              Faded styles have fewer than {MEDIUM_CONFIDENCE_SWIPES} swipes, so their bars may still move a lot.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
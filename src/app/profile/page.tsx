@@ -26,9 +26,29 @@ import {
   Clock as ClockIcon, 
   FastForward as FastForwardIcon, 
   Rewind as RewindIcon,
-  Dna as DnaIcon, // For Architectural DNA
   TrendingUp as TrendingUpIcon, // Alternative for consistency
+  Star as StarIcon,
+  Download as DownloadIcon,
+  LayoutGrid as LayoutGridIcon,
+  FolderHeart as FolderHeartIcon,
 } from 'lucide-react';
+import { LikesGallery } from './LikesGallery';
+import { TasteProfileReport } from './TasteProfileReport';
+import { SwipeHistory } from './SwipeHistory';
+import { AvatarCropper } from './AvatarCropper';
+import { AccountDeletion } from './AccountDeletion';
+import { PUBLIC_PROFILE_SECTIONS, PublicProfileSection } from '@/app/lib/publicProfile';
+import {
+  generateAvailableUsername,
+  getFallbackUsername,
+  isUsernameAvailable,
+  normalizeUsername,
+  UNIQUE_VIOLATION_CODE,
+  USERNAME_MAX_LENGTH,
+  validateUsername,
+} from '@/app/lib/usernames';
+import { getAvatarFileExtension, MAX_AVATAR_FILE_BYTES, validateAvatarFile } from '@/app/lib/avatarImage';
+import { buildDataExport, downloadBlob, ExportProgress } from '@/app/lib/dataExport';
 
 // --- Types ---
 interface ProfileData {
@@ -37,12 +57,16 @@ interface ProfileData {
   avatar_url: string | null;
   bio: string | null;
   architectural_preferences: string[] | null;
+  // Off by default; /u/[username] only shows the sections listed in public_sections
+  is_public: boolean | null;
+  public_sections: PublicProfileSection[] | null;
 }
 interface Style { name: string; }
 
 interface RecentActivityItemFromRPC {
   id: number;
   direction: boolean;
+  isSuperLike: boolean;
   imageName: string;
   styleName: string;
   timestamp: string;
@@ -60,6 +84,8 @@ interface UserActivitySummary {
   totalSwipes: number;
   totalLikes: number;
   totalDislikes: number;
+  // Super-likes are also counted in totalLikes
+  totalSuperLikes: number;
   likeRatio: number;
   topLikedStyles: { name: string; likes: number }[];
   topDislikedStyles: { name: string; dislikes: number }[];
@@ -109,6 +135,23 @@ const formatMsToSeconds = (ms: number | null | undefined): string => {
 };
 
 
+type UsernameCheckStatus = 'idle' | 'invalid' | 'checking' | 'available' | 'taken';
+
+const USERNAME_CHECK_DEBOUNCE_MS = 400;
+
+type AvatarUploadStep = 'uploading' | 'saving' | 'cleaning_up';
+
+const AVATAR_UPLOAD_STEPS: { step: AvatarUploadStep; label: string }[] = [
+  { step: 'uploading', label: 'Uploading photo...' },
+  { step: 'saving', label: 'Updating profile...' },
+  { step: 'cleaning_up', label: 'Removing old photo...' },
+];
+
+const EXPORT_STEP_LABELS: Record<ExportProgress, string> = {
+  profile: 'Collecting your profile...', swipes: 'Collecting your swipes...', activity: 'Collecting your boards and sessions...',
+  avatar: 'Adding your avatar...', packaging: 'Packaging the download...',
+};
+
 export default function ProfilePage() {
   const { session, supabase, isLoading: isLoadingAuth } = useAuth();
   const router = useRouter();
@@ -120,11 +163,15 @@ export default function ProfilePage() {
   const [is_editing, set_is_editing] = useState(false);
   const [form_data, set_form_data] = useState<ProfileData | null>(null);
   const [saving, set_saving] = useState(false);
-  const [active_tab, set_active_tab] = useState<'profile' | 'preferences' | 'activity'>('profile');
+  const [active_tab, set_active_tab] = useState<'profile' | 'preferences' | 'activity' | 'likes'>('profile');
   const [selected_styles, set_selected_styles] = useState<string[]>([]);
   const [available_styles, set_available_styles] = useState<string[]>([]);
   const [loading_styles, set_loading_styles] = useState(false);
   const [success_message, set_success_message] = useState<string | null>(null);
+  const [export_step, set_export_step] = useState<ExportProgress | null>(null);
+  const [username_check, set_username_check] = useState<{ status: UsernameCheckStatus; message: string | null }>({ status: 'idle', message: null });
+  const [avatar_file, set_avatar_file] = useState<File | null>(null);
+  const [avatar_upload_step, set_avatar_upload_step] = useState<AvatarUploadStep | null>(null);
 
   const [summary_data, set_summary_data] = useState<UserActivitySummary | null>(null);
   const [loading_summary, set_loading_summary] = useState(false);
@@ -154,18 +201,25 @@ export default function ProfilePage() {
         try {
           const { data, error: profile_error } = await supabase
             .from('profiles')
-            .select('username, full_name, avatar_url, bio, architectural_preferences')
+            .select('username, full_name, avatar_url, bio, architectural_preferences, is_public, public_sections')
             .eq('id', session.user.id)
             .single();
           if (profile_error) {
             if (profile_error.code === 'PGRST116') { 
-              const new_profile_data_insert = {
-                id: session.user.id,
-                username: session.user.email?.split('@')[0] || `user_${session.user.id.substring(0,6)}`,
-                full_name: null, avatar_url: null, bio: null, architectural_preferences: [],
-              };
-              const { error: insert_error } = await supabase.from('profiles').insert(new_profile_data_insert);
-              if (insert_error) throw insert_error;
+              // If the generated username is taken between the check and the insert, fall back to one built from the user id
+              const username_candidates = [await generateAvailableUsername(supabase, session.user.email, session.user.id), getFallbackUsername(session.user.id)];
+              let new_profile_data_insert = null;
+              for (const username of username_candidates) {
+                const profile_row = {
+                  id: session.user.id, username,
+                  full_name: null, avatar_url: null, bio: null, architectural_preferences: [],
+                  is_public: false, public_sections: [],
+                };
+                const { error: insert_error } = await supabase.from('profiles').insert(profile_row);
+                if (!insert_error) { new_profile_data_insert = profile_row; break; }
+                if (insert_error.code !== UNIQUE_VIOLATION_CODE || !insert_error.message.includes('username')) throw insert_error;
+              }
+              if (!new_profile_data_insert) throw new Error('Could not pick a username for your new profile.');
               const { id, ...new_profile_state } = new_profile_data_insert;
               set_profile(new_profile_state); set_form_data(new_profile_state); set_selected_styles([]);
             } else { throw profile_error; }
@@ -203,46 +257,98 @@ export default function ProfilePage() {
     }
   }, [supabase, loading_styles, available_styles.length]); 
 
-  useEffect(() => {
-    if (active_tab === 'activity' && session && supabase && !loading_summary && !summary_fetch_attempted.current) {
+  // Quiet refreshes (after a verdict is flipped in the history) keep the current stats on screen while loading
+  const fetch_summary_data = useCallback(async (quiet = false) => {
+    if (!session || !supabase) return;
+    if (!quiet) {
       set_loading_summary(true);
-      summary_fetch_attempted.current = true;
       setActivityError(null);
+    }
+    try {
+      const { data, error: rpcError } = await supabase.rpc('get_user_activity_summary', {
+        user_id_param: session.user.id,
+      });
 
-      const fetch_summary_data = async () => {
-        try {
-          const { data, error: rpcError } = await supabase.rpc('get_user_activity_summary', {
-            user_id_param: session.user.id,
-          });
+      if (rpcError) {
+        throw new Error(`RPC Error: ${rpcError.message}`);
+      }
+      if (data) { 
+        set_summary_data(data as UserActivitySummary); 
+      } else {
+        set_summary_data(null);
+      }
+    } catch (err: any) {
+      if (quiet) {
+        // Stale stats are better than replacing the whole tab with an error
+        console.error('Failed to refresh activity summary:', err);
+        return;
+      }
+      setActivityError(`Failed to load activity summary: ${err.message}`);
+      set_summary_data(null);
+    } finally {
+      if (!quiet) set_loading_summary(false);
+    }
+  }, [session, supabase]);
 
-          if (rpcError) {
-            throw new Error(`RPC Error: ${rpcError.message}`);
-          }
-          if (data) { 
-            set_summary_data(data as UserActivitySummary); 
-          } else {
-            set_summary_data(null);
-          }
-        } catch (err: any) {
-          setActivityError(`Failed to load activity summary: ${err.message}`);
-          set_summary_data(null);
-        } finally {
-          set_loading_summary(false);
-        }
-      };
+  const refresh_summary_data = useCallback(() => fetch_summary_data(true), [fetch_summary_data]);
+
+  useEffect(() => {
+    if (active_tab === 'activity' && session && supabase && !loading_summary && !summary_fetch_attempted.current) {
+      summary_fetch_attempted.current = true;
       fetch_summary_data();
     }
     if (active_tab !== 'activity') {
       summary_fetch_attempted.current = false; 
     }
-  }, [active_tab, session, supabase, loading_summary]);
+  }, [active_tab, session, supabase, loading_summary, fetch_summary_data]);
 
 
+  // Debounced availability check while the username is being edited; unchanged usernames aren't checked
+  useEffect(() => {
+    if (!is_editing || !supabase || (form_data?.username || '') === (profile?.username || '')) {
+      set_username_check({ status: 'idle', message: null });
+      return;
+    }
+    const username = normalizeUsername(form_data?.username || '');
+    const validation_error = validateUsername(username);
+    if (validation_error) {
+      set_username_check({ status: 'invalid', message: validation_error });
+      return;
+    }
+    set_username_check({ status: 'checking', message: 'Checking availability...' });
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const available = await isUsernameAvailable(supabase, username);
+        if (cancelled) return;
+        set_username_check(available
+          ? { status: 'available', message: `@${username} is available.` }
+          : { status: 'taken', message: `@${username} is already taken.` });
+      } catch (err) {
+        // The unique index still protects the save, so a failed check just goes quiet
+        console.warn('Username availability check failed:', err);
+        if (!cancelled) set_username_check({ status: 'idle', message: null });
+      }
+    }, USERNAME_CHECK_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [is_editing, form_data?.username, profile?.username, supabase]);
+
   const handle_input_change = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
     set_form_data(prev => prev ? { ...prev, [name]: value } : null);
   };
 
+  const toggle_public_section = (section: PublicProfileSection) => {
+    set_form_data(prev => {
+      if (!prev) return null;
+      const sections = prev.public_sections || [];
+      return { ...prev, public_sections: sections.includes(section) ? sections.filter(s => s !== section) : [...sections, section] };
+    });
+  };
+
   const toggle_style = (style: string) => {
     const updated_styles = selected_styles.includes(style) ? selected_styles.filter(s => s !== style) : [...selected_styles, style];
     set_selected_styles(updated_styles);
@@ -252,23 +358,34 @@ export default function ProfilePage() {
   const handle_save_profile = useCallback(async (e?: React.FormEvent) => {
     if (e) e.preventDefault();
     if (!session || !form_data) return;
+    // Older usernames were copied from email addresses and may not meet today's rules; they're kept as-is until changed
+    const username_changed = (form_data.username || '') !== (profile?.username || '');
+    const username = username_changed ? normalizeUsername(form_data.username || '') : profile?.username || '';
+    const username_error = username_changed || !username ? validateUsername(username) : null;
+    if (username_error) { set_error(username_error); return; }
     set_saving(true); set_error(null); set_success_message(null);
     try {
       const updates = {
-        id: session.user.id, username: form_data.username, full_name: form_data.full_name,
-        bio: form_data.bio, architectural_preferences: selected_styles, updated_at: new Date().toISOString(),
+        id: session.user.id, username, full_name: form_data.full_name,
+        bio: form_data.bio, architectural_preferences: selected_styles,
+        is_public: !!form_data.is_public, public_sections: form_data.public_sections || [],
+        updated_at: new Date().toISOString(),
       };
       const { error: update_error } = await supabase.from('profiles').upsert(updates).eq('id', session.user.id); 
       if (update_error) {
           if (update_error.message.includes('column "architectural_preferences" does not exist')) {
                throw new Error("Database Error: The 'architectural_preferences' column seems to be missing in your 'profiles' table. Please add it (e.g., as type 'text[]').");
           }
+          if (update_error.code === UNIQUE_VIOLATION_CODE && update_error.message.includes('username')) {
+               throw new Error(`The username "${username}" was just taken by someone else. Please choose another.`);
+          }
           throw update_error;
       }
        const updated_profile_state: ProfileData = {
-         username: form_data.username, full_name: form_data.full_name,
+         username, full_name: form_data.full_name,
          avatar_url: profile?.avatar_url || null, bio: form_data.bio,
          architectural_preferences: selected_styles,
+         is_public: !!form_data.is_public, public_sections: form_data.public_sections || [],
        };
       set_profile(updated_profile_state); set_form_data(updated_profile_state);
       set_success_message('Profile updated successfully!'); setTimeout(() => set_success_message(null), 3000);
@@ -279,34 +396,64 @@ export default function ProfilePage() {
   }, [session, form_data, selected_styles, supabase, profile]);
 
 
-  const handle_avatar_upload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (!e.target.files || !e.target.files.length || !session || !supabase) return;
-    const file = e.target.files[0]; const file_ext = file.name.split('.').pop();
-    const file_name = `${session.user.id}-${Date.now()}.${file_ext}`; const file_path = `${session.user.id}/${file_name}`;
+  const close_avatar_cropper = useCallback(() => set_avatar_file(null), []);
+
+  // Picking a file only validates it and opens the cropper; the upload starts once a crop is confirmed
+  const handle_avatar_select = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    set_error(null); set_success_message(null);
+    const validation_error = validateAvatarFile(file);
+    if (validation_error) { set_error(validation_error); return; }
+    set_avatar_file(file);
+  };
+
+  const handle_avatar_upload = async (avatar: Blob) => {
+    set_avatar_file(null);
+    if (!session || !supabase) return;
+    const file_path = `${session.user.id}/${session.user.id}-${Date.now()}.${getAvatarFileExtension(avatar)}`;
     try {
-        set_loading_profile(true); set_error(null); set_success_message(null);
+        set_avatar_upload_step('uploading'); set_error(null); set_success_message(null);
+        const { error: upload_error } = await supabase.storage.from('avatars').upload(file_path, avatar, { contentType: avatar.type });
+        if (upload_error) throw new Error(`Upload failed: ${upload_error.message}`);
+        const { data: url_data } = supabase.storage.from('avatars').getPublicUrl(file_path);
+        if (!url_data?.publicUrl) throw new Error("Could not get public URL for uploaded avatar.");
+        const new_avatar_url = url_data.publicUrl;
+
+        set_avatar_upload_step('saving');
+        const { error: update_error } = await supabase.from('profiles').update({ avatar_url: new_avatar_url, updated_at: new Date().toISOString() }).eq('id', session.user.id);
+        if (update_error) throw new Error(`Profile update failed: ${update_error.message}`);
+
+        // The old file is only removed once the profile points at the new one
         if (profile?.avatar_url && !profile.avatar_url.includes('placehold.co')) {
+            set_avatar_upload_step('cleaning_up');
             const old_avatar_path_parts = profile.avatar_url.split('/');
             const old_avatar_name = old_avatar_path_parts.pop();
             const old_avatar_user_folder = old_avatar_path_parts.pop();
             if (old_avatar_name && old_avatar_user_folder === session.user.id) { 
-                 await supabase.storage.from('avatars').remove([`${session.user.id}/${old_avatar_name}`]);
+                 const { error: remove_error } = await supabase.storage.from('avatars').remove([`${session.user.id}/${old_avatar_name}`]);
+                 if (remove_error) console.warn('Old avatar could not be removed:', remove_error);
             }
         }
-
-        const { error: upload_error } = await supabase.storage.from('avatars').upload(file_path, file);
-        if (upload_error) throw new Error(`Upload failed: ${upload_error.message}`);
-        const { data: url_data } = supabase.storage.from('avatars').getPublicUrl(file_path);
-        if (!url_data?.publicUrl) throw new Error("Could not get public URL for uploaded avatar.");
-        const new_avatar_url = url_data.publicUrl;
-        const { error: update_error } = await supabase.from('profiles').update({ avatar_url: new_avatar_url, updated_at: new Date().toISOString() }).eq('id', session.user.id);
-        if (update_error) throw new Error(`Profile update failed: ${update_error.message}`);
         set_profile(prev => prev ? { ...prev, avatar_url: new_avatar_url } : null );
         set_form_data(prev => prev ? { ...prev, avatar_url: new_avatar_url } : null );
         set_success_message('Avatar updated successfully!'); setTimeout(() => set_success_message(null), 3000);
-    } catch (err: any) {
-        set_error(`Avatar upload failed: ${err.message}`);
-    } finally { set_loading_profile(false); e.target.value = ''; }
+    } catch (err) {
+        set_error(`Avatar upload failed: ${(err as Error).message || 'Unknown error'}`);
+    } finally { set_avatar_upload_step(null); }
+  };
+
+  const handle_data_export = async () => {
+    if (!session || !supabase || export_step) return;
+    set_error(null); set_success_message(null);
+    try {
+      const archive = await buildDataExport(supabase, session.user.id, set_export_step);
+      downloadBlob(archive, `archiswipe-data-${new Date().toISOString().slice(0, 10)}.zip`);
+      set_success_message('Your data export has been downloaded.'); setTimeout(() => set_success_message(null), 3000);
+    } catch (err) {
+      set_error(`Data export failed: ${(err as Error).message || 'Unknown error'}`);
+    } finally { set_export_step(null); }
   };
 
   const handle_sign_out = async () => {
@@ -328,16 +475,6 @@ export default function ProfilePage() {
 
   if (!session) return null; 
 
-  // Sort style_like_ratios by likeRatio descending, then by totalSeenInStyle descending for tie-breaking
-  const sortedStyleRatios = summary_data?.style_like_ratios
-    ? [...summary_data.style_like_ratios].sort((a, b) => {
-        if (b.likeRatio !== a.likeRatio) {
-          return b.likeRatio - a.likeRatio;
-        }
-        return b.totalSeenInStyle - a.totalSeenInStyle;
-      })
-    : [];
-
   return (
     <main className="min-h-screen bg-gradient-to-br from-pink-50 via-rose-50 to-fuchsia-50 text-slate-700">
       {/* ... header and profile card ... */}
@@ -354,6 +491,12 @@ export default function ProfilePage() {
                <Link href="/swipe" className={navLinkSecondary}>
                   <CompassIcon size={18} className="inline mr-1" /> Swipe
                </Link>
+               <Link href="/boards" className={navLinkSecondary}>
+                  <FolderHeartIcon size={18} className="inline mr-1" /> Boards
+               </Link>
+               <Link href="/match" className={navLinkSecondary}>
+                  <UsersIcon size={18} className="inline mr-1" /> Match
+               </Link>
                <button onClick={handle_sign_out} className={`${navLinkPrimary} flex items-center`}>
                  <LogOutIcon size={18} className="inline mr-1.5" /> Sign Out
                </button>
@@ -374,7 +517,7 @@ export default function ProfilePage() {
                 <div className="absolute -bottom-12 sm:-bottom-16 left-6 sm:left-10">
                     <div className="relative group">
                         <div className="w-24 h-24 sm:w-32 sm:h-32 rounded-full border-4 border-white bg-pink-100 flex items-center justify-center overflow-hidden shadow-lg">
-                            {loading_profile && is_editing ? (
+                            {avatar_upload_step ? (
                                  <svg className="animate-spin h-8 w-8 text-pink-500" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
                                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
@@ -384,9 +527,9 @@ export default function ProfilePage() {
                             ) : ( <UserIconRegular className="h-12 w-12 sm:h-16 sm:w-16 text-pink-400" /> )}
                         </div>
                         {is_editing && (
-                            <label htmlFor="avatar-upload" className={`absolute bottom-0 right-0 w-8 h-8 sm:w-10 sm:h-10 bg-pink-500 rounded-full flex items-center justify-center cursor-pointer shadow-md hover:bg-pink-600 transition duration-200 border-2 border-white ${loading_profile ? 'opacity-50 cursor-not-allowed' : ''}`}>
+                            <label htmlFor="avatar-upload" className={`absolute bottom-0 right-0 w-8 h-8 sm:w-10 sm:h-10 bg-pink-500 rounded-full flex items-center justify-center cursor-pointer shadow-md hover:bg-pink-600 transition duration-200 border-2 border-white ${avatar_upload_step ? 'opacity-50 cursor-not-allowed' : ''}`} title={`JPEG, PNG, WebP, GIF or AVIF, up to ${MAX_AVATAR_FILE_BYTES / (1024 * 1024)} MB`}>
                                 <CameraIcon className="h-4 w-4 sm:h-5 sm:w-5 text-white" />
-                                <input id="avatar-upload" type="file" accept="image/*" className="hidden" onChange={handle_avatar_upload} disabled={loading_profile} />
+                                <input id="avatar-upload" type="file" accept="image/jpeg,image/png,image/webp,image/gif,image/avif" className="hidden" onChange={handle_avatar_select} disabled={!!avatar_upload_step} />
                             </label>
                         )}
                     </div>
@@ -416,6 +559,15 @@ export default function ProfilePage() {
                 {/* ... Name, username, errors, tabs ... */}
                 <h1 className="text-2xl sm:text-3xl font-bold text-slate-800 mb-1">{profile?.full_name || profile?.username || "ArchiSwiper"}</h1>
                 <p className="text-sm text-slate-500 mb-6">@{profile?.username || session.user.email}</p>
+                {avatar_upload_step && (
+                    <div role="status" className="mb-6 max-w-xs">
+                        <p className="text-xs text-gray-500 mb-1">{AVATAR_UPLOAD_STEPS.find(entry => entry.step === avatar_upload_step)?.label}</p>
+                        <div className="h-1.5 bg-pink-100 rounded-full overflow-hidden">
+                            <div className="h-full bg-pink-500 transition-all duration-300"
+                                 style={{ width: `${((AVATAR_UPLOAD_STEPS.findIndex(entry => entry.step === avatar_upload_step) + 1) / (AVATAR_UPLOAD_STEPS.length + 1)) * 100}%` }} />
+                        </div>
+                    </div>
+                )}
 
                 {error && ( <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700 whitespace-pre-wrap">{error}</div> )}
                 {success_message && ( <motion.div initial={{ opacity: 0, y: -10 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0 }} className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg text-green-700">{success_message}</motion.div> )}
@@ -426,6 +578,7 @@ export default function ProfilePage() {
                            { id: 'profile', label: 'Profile', icon: <UserIconRegular size={18}/> },
                            { id: 'preferences', label: 'Preferences', icon: <SettingsIcon size={18}/> },
                            { id: 'activity', label: 'Activity', icon: <ActivityIcon size={18}/> },
+                           { id: 'likes', label: 'Likes', icon: <LayoutGridIcon size={18}/> },
                        ].map(tab => (
                            <button
                                key={tab.id}
@@ -450,8 +603,13 @@ export default function ProfilePage() {
                       </div>
                       <div>
                         <label htmlFor="username" className="block text-sm font-medium text-gray-700 mb-1">Username</label>
-                        <input id="username" name="username" type="text" value={form_data?.username || ''} onChange={handle_input_change} disabled={!is_editing || saving}
+                        <input id="username" name="username" type="text" value={form_data?.username || ''} disabled={!is_editing || saving}
+                               onChange={e => set_form_data(prev => prev ? { ...prev, username: e.target.value.toLowerCase().replace(/\s/g, '') } : null)}
+                               maxLength={USERNAME_MAX_LENGTH} autoComplete="off" aria-describedby="username-status" aria-invalid={username_check.status === 'invalid' || username_check.status === 'taken'}
                                className={`w-full px-4 py-2.5 border rounded-lg text-sm ${is_editing ? 'bg-white border-gray-300 text-gray-900 focus:ring-pink-500 focus:border-pink-500' : 'bg-gray-100 border-gray-300 text-gray-500 cursor-not-allowed'}`} />
+                        <p id="username-status" aria-live="polite" className={`mt-1 text-xs ${username_check.status === 'invalid' || username_check.status === 'taken' ? 'text-red-600' : username_check.status === 'available' ? 'text-green-600' : 'text-gray-500'}`}>
+                          {username_check.message || (is_editing ? 'Letters, numbers and underscores.' : '')}
+                        </p>
                       </div>
                       <div className="md:col-span-2">
                         <label htmlFor="full_name" className="block text-sm font-medium text-gray-700 mb-1">Full Name</label>
@@ -465,8 +623,41 @@ export default function ProfilePage() {
                                   className={`w-full px-4 py-2.5 border rounded-lg text-sm ${is_editing ? 'bg-white border-gray-300 text-gray-900 focus:ring-pink-500 focus:border-pink-500' : 'bg-gray-100 border-gray-300 text-gray-500 cursor-not-allowed'}`}
                                   placeholder={is_editing ? "Tell us about your architectural interests..." : "No bio yet."}></textarea>
                     </div>
+                    <fieldset className="mb-6 p-4 rounded-lg border border-gray-200" disabled={!is_editing || saving}>
+                        <legend className="px-1 text-sm font-medium text-gray-700">Public profile</legend>
+                        <label className="flex items-center text-sm text-gray-700 mb-1">
+                            <input type="checkbox" checked={!!form_data?.is_public} onChange={e => set_form_data(prev => prev ? { ...prev, is_public: e.target.checked } : null)}
+                                   className="mr-2 rounded border-gray-300 text-pink-600 focus:ring-pink-500" />
+                            Let anyone view my profile at /u/{profile?.username || 'username'}
+                        </label>
+                        <p className="text-xs text-gray-500 mb-3 ml-6">Your name, username and avatar are shown. Choose what else to include:</p>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 ml-6">
+                            {PUBLIC_PROFILE_SECTIONS.map(section => (
+                                <label key={section.id} className={`flex items-start text-sm ${form_data?.is_public ? 'text-gray-700' : 'text-gray-400'}`}>
+                                    <input type="checkbox" checked={(form_data?.public_sections || []).includes(section.id)} onChange={() => toggle_public_section(section.id)} disabled={!form_data?.is_public}
+                                           className="mr-2 mt-0.5 rounded border-gray-300 text-pink-600 focus:ring-pink-500" />
+                                    <span>{section.label}<span className="block text-xs text-gray-400">{section.description}</span></span>
+                                </label>
+                            ))}
+                        </div>
+                        {profile?.is_public && profile.username && !is_editing && (
+                            <Link href={`/u/${encodeURIComponent(profile.username)}`} className="inline-block mt-3 ml-6 text-sm text-pink-600 hover:underline">View your public profile</Link>
+                        )}
+                    </fieldset>
+                    <div className="p-4 rounded-lg border border-gray-200 flex flex-wrap items-center justify-between gap-4">
+                        <div>
+                            <h2 className="text-sm font-medium text-gray-700">Your data</h2>
+                            <p className="text-xs text-gray-500">A ZIP with your profile, every swipe (JSON and CSV) and your avatar.</p>
+                        </div>
+                        <button type="button" onClick={handle_data_export} disabled={!!export_step}
+                                className={`px-4 py-2 rounded-full border border-pink-200 bg-pink-50 text-pink-600 text-sm font-semibold flex items-center ${export_step ? 'opacity-70 cursor-wait' : 'hover:bg-pink-100'}`}>
+                            <DownloadIcon size={16} className="mr-1.5" />
+                            {export_step ? EXPORT_STEP_LABELS[export_step] : 'Download my data'}
+                        </button>
+                    </div>
                    </form>
                 )}
+                {active_tab === 'profile' && <AccountDeletion username={profile?.username || null} />}
 
                 {active_tab === 'preferences' && (
                   // ... Preferences content ...
@@ -525,6 +716,7 @@ export default function ProfilePage() {
                             <StatCard title="Buildings Viewed" value={summary_data.totalSwipes || 0} icon={<BuildingIcon />} />
                             <StatCard title="Right Swipes" value={summary_data.totalLikes || 0} icon={<HeartIconLucide />} />
                             <StatCard title="Left Swipes" value={summary_data.totalDislikes || 0} icon={<XIcon />} bgColor="bg-red-100" textColor="text-red-600" />
+                            <StatCard title="Super Likes" value={summary_data.totalSuperLikes || 0} icon={<StarIcon />} bgColor="bg-sky-100" textColor="text-sky-600" />
                             <StatCard title="Like Ratio" value={`${(summary_data.likeRatio || 0).toFixed(1)}%`} icon={<PercentIcon />} bgColor="bg-blue-100" textColor="text-blue-600" />
                             <StatCard title="Styles Discovered" value={summary_data.discoveredStyleCount || 0} icon={<SparklesIcon />} bgColor="bg-yellow-100" textColor="text-yellow-600" />
                             <StatCard 
@@ -553,41 +745,7 @@ export default function ProfilePage() {
                             />
                          </div>
 
-                        {/* NEW SECTION: Architectural DNA / Style Like Ratios */}
-                        <div className="mb-10">
-                            <h3 className="font-semibold text-slate-700 mb-4 text-lg flex items-center">
-                                <DnaIcon size={20} className="mr-2 text-pink-600" />
-                                Your Architectural DNA (Style Affinities)
-                            </h3>
-                            {sortedStyleRatios.length > 0 ? (
-                                <div className="space-y-3">
-                                {sortedStyleRatios.map(style => (
-                                    <div key={style.styleName} className="bg-white rounded-lg p-4 border border-gray-200 shadow-sm hover:shadow-md transition-shadow">
-                                        <div className="flex justify-between items-center mb-1">
-                                            <span className="font-medium text-slate-800 text-md">{style.styleName}</span>
-                                            <span className={`font-semibold text-lg ${style.likeRatio >= 70 ? 'text-green-600' : style.likeRatio >= 40 ? 'text-yellow-600' : 'text-red-600'}`}>
-                                            {style.likeRatio.toFixed(1)}% Liked
-                                            </span>
-                                        </div>
-                                        <div className="w-full bg-gray-200 rounded-full h-2.5 dark:bg-gray-700">
-                                            <div 
-                                                className="bg-pink-500 h-2.5 rounded-full" 
-                                                style={{ width: `${style.likeRatio}%` }}
-                                                title={`${style.likeRatio.toFixed(1)}%`}
-                                            ></div>
-                                        </div>
-                                        <p className="text-xs text-gray-500 mt-1.5">
-                                            You liked {style.totalLikedInStyle} out of {style.totalSeenInStyle} {style.styleName.toLowerCase()} buildings seen.
-                                        </p>
-                                    </div>
-                                ))}
-                                </div>
-                            ) : (
-                                <p className="text-gray-500 italic text-sm bg-white p-4 rounded-lg shadow-sm border">
-                                No style interaction data yet. Keep swiping to build your Architectural DNA!
-                                </p>
-                            )}
-                        </div>
+                        <TasteProfileReport styleRatios={summary_data.style_like_ratios || []} />
 
 
                          <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-6 mb-10">
@@ -626,13 +784,14 @@ export default function ProfilePage() {
                            <div className="space-y-3">
                              {summary_data.recentActivity.map(activity => (
                                <div key={activity.id} className="bg-white rounded-lg p-4 border border-gray-200 shadow-sm flex items-center space-x-4 hover:shadow-md transition-shadow">
-                                 <div className={`w-10 h-10 rounded-lg flex-shrink-0 flex items-center justify-center ${activity.direction ? 'bg-pink-100' : 'bg-red-100'}`}>
-                                   {activity.direction ? ( <HeartIconLucide className="h-5 w-5 text-pink-500" />
+                                 <div className={`w-10 h-10 rounded-lg flex-shrink-0 flex items-center justify-center ${activity.isSuperLike ? 'bg-sky-100' : activity.direction ? 'bg-pink-100' : 'bg-red-100'}`}>
+                                   {activity.isSuperLike ? ( <StarIcon className="h-5 w-5 text-sky-500" />
+                                   ) : activity.direction ? ( <HeartIconLucide className="h-5 w-5 text-pink-500" />
                                    ) : ( <XIcon className="h-5 w-5 text-red-500" /> )}
                                  </div>
                                  <div className="flex-grow">
                                      <p className="font-medium text-slate-700 text-sm leading-tight">
-                                        You {activity.direction ? 'liked' : 'passed on'}
+                                        You {activity.isSuperLike ? 'super-liked' : activity.direction ? 'liked' : 'passed on'}
                                         <span className="font-semibold text-pink-600"> {activity.styleName || 'a building'}</span>
                                         {activity.imageName && activity.imageName !== 'Unknown Image' ? ` (image: ${activity.imageName})` : ''}.
                                      </p>
@@ -645,6 +804,9 @@ export default function ProfilePage() {
                            </div>
                          ) : ( <p className="text-gray-500 italic text-sm bg-white p-4 rounded-lg shadow-sm border">No recent activity to show.</p> )}
 
+                         <h3 className="font-semibold text-slate-700 mt-10 mb-4 text-lg">Full Swipe History</h3>
+                         <SwipeHistory availableStyles={available_styles} onVerdictChanged={refresh_summary_data} />
+
 
                          <div className="flex justify-center mt-10">
                            {/* ... Continue Swiping button ... */}
@@ -660,6 +822,8 @@ export default function ProfilePage() {
                      )}
                    </div>
                  )}
+
+                {active_tab === 'likes' && <LikesGallery availableStyles={available_styles} />}
             </div>
         </motion.div>
        </section>
@@ -680,6 +844,7 @@ export default function ProfilePage() {
            </p>
          </div>
        </footer>
+      {avatar_file && <AvatarCropper file={avatar_file} onCancel={close_avatar_cropper} onConfirm={handle_avatar_upload} />}
     </main>
   );
 }
\ No newline at end of file
@@ -5,23 +5,59 @@ import React, {
   useState,
   useEffect,
   useCallback,
+  useMemo,
   useRef,
   forwardRef,
-  useImperativeHandle
+  useImperativeHandle,
+  Suspense
 } from 'react';
 import Link from 'next/link';
 import { useAuth } from '@/app/context/AuthContext';
-import { useRouter } from 'next/navigation';
+import { useRouter, useSearchParams } from 'next/navigation';
 import {
   motion,
+  AnimatePresence,
   useMotionValue,
   useTransform,
+  useReducedMotion,
   animate,
   PanInfo,
   Transition as FramerTransition
 } from 'framer-motion';
 import type { SupabaseClient } from '@supabase/supabase-js';
-import { Users as UsersIcon, Compass as CompassIcon, Home as HomeIconLucide } from 'lucide-react';
+import {
+  Users as UsersIcon,
+  Home as HomeIconLucide,
+  RotateCcw as RewindIcon,
+  CloudOff as CloudOffIcon,
+  X as CloseIcon,
+  MapPin as MapPinIcon,
+  Calendar as CalendarIcon,
+  PenTool as ArchitectIcon,
+  Landmark as StyleIcon,
+  Filter as FilterIcon,
+  Trophy as TrophyIcon,
+  Zap as ZapIcon,
+  Hourglass as HourglassIcon,
+  ArrowUpRight as ArrowUpRightIcon,
+  ArrowDownRight as ArrowDownRightIcon,
+  FolderPlus as FolderPlusIcon,
+  FolderHeart as FolderHeartIcon,
+} from 'lucide-react';
+import {
+  enqueueSwipe,
+  flushSwipeQueue,
+  getNextRetryDelay,
+  getPendingSwipeCount,
+  getQueuedImageIds,
+  removeQueuedSwipe,
+  SwipeInputMethod,
+  SwipeTelemetry,
+} from '@/app/lib/swipeQueue';
+import { getDeckOrderForUser, getExplorationShare, rankDeck } from '@/app/lib/deckRanking';
+import { BoardPicker } from '@/app/boards/BoardPicker';
+import { removeImageFromAllBoards } from '@/app/lib/boards';
+import { getHouseImageUrl } from '@/app/lib/houseImages';
 
 // -----------------------------------------------------------------------------
 // Types & Constants
@@ -30,10 +66,49 @@ interface ImageCardData {
   id: number;
   storage_path: string;
   description: string | null;
+  // Building metadata returned by get_unseen_images for the detail sheet
+  style_name: string | null;
+  architect: string | null;
+  year_built: number | null;
+  location: string | null;
 }
 
+// 'up' is a super-like: stored as a like with `is_super_like` set
+type SwipeDirection = 'left' | 'right' | 'up';
+
 interface CardApi {
-  triggerSwipe: (direction: 'left' | 'right') => void;
+  triggerSwipe: (direction: SwipeDirection, inputMethod: SwipeInputMethod) => void;
+}
+
+// A recorded swipe that can still be rewound this session
+interface SwipeHistoryEntry {
+  card: ImageCardData;
+  direction: SwipeDirection;
+}
+
+// Undo can reach back past a recap, so each entry remembers which swipe session it counted towards
+interface UndoableSwipe extends SwipeHistoryEntry {
+  sessionId: string;
+}
+
+interface SessionSwipe extends SwipeHistoryEntry {
+  durationMs: number | null;
+}
+
+// One run of swiping between recaps; mirrored to the `swipe_sessions` table
+interface SwipeSession {
+  id: string;
+  startedAt: number;
+  endedAt: number | null;
+  swipes: SessionSwipe[];
+}
+
+// Same shape as the style_like_ratios returned by get_user_activity_summary
+interface StyleLikeRatioItem {
+  styleName: string;
+  totalSeenInStyle: number;
+  totalLikedInStyle: number;
+  likeRatio: number;
 }
 
 const SWIPE_THRESHOLD = 100;
@@ -42,6 +117,19 @@ const CARD_FETCH_THRESHOLD = 3;
 const KEY_COOLDOWN_MS = 400;
 const VISIBLE_CARDS = 3;
 const FETCH_COUNT = 5;
+// Candidates ranked at once when the deck is ranked; well-liked styles anywhere in the pool can lead the deck
+const RANKING_POOL_SIZE = 200;
+const MAX_UNDO_STEPS = 10;
+const CARD_FLY_OUT_DISTANCE = 450;
+const STYLE_FILTER_PARAM = 'styles';
+// Horizontal drag movement (px) needed before a change of direction counts as a reversal
+const REVERSAL_MIN_TRAVEL_PX = 8;
+const SESSION_RECAP_EVERY = 20;
+// Swipe sessions are re-saved this long after the last change to them
+const SESSION_SAVE_DEBOUNCE_MS = 1000;
+const IMAGE_RETRY_DELAY_MS = 1500;
+// How long the "Save to board" prompt stays up after a like
+const BOARD_PROMPT_DURATION_MS = 6000;
 
 // --- Simple Heart component for background decoration (copied from page.tsx) ---
 const HeartBG = ({ className = '' }: { className?: string }) => (
@@ -49,27 +137,151 @@ const HeartBG = ({ className = '' }: { className?: string }) => (
 );
 
 
+// Small, low quality version of a card image shown while the full one loads
+const PLACEHOLDER_WIDTH = 32;
+const PLACEHOLDER_QUALITY = 20;
+
+// Short spoken description of a card for screen reader announcements
+const describeCard = (card: ImageCardData): string => {
+  const parts = [card.style_name ? `${card.style_name} building` : 'Building'];
+  if (card.architect) parts.push(`by ${card.architect}`);
+  if (card.year_built) parts.push(`from ${card.year_built}`);
+  if (card.location) parts.push(`in ${card.location}`);
+  return parts.join(' ');
+};
+
+const VERDICT_ANNOUNCEMENTS: Record<SwipeDirection, string> = {
+  left: 'Passed.',
+  right: 'Liked.',
+  up: 'Super-liked.',
+};
+
+// Keys on these elements keep their native behaviour instead of driving the deck
+const isInteractiveTarget = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || !!target.closest('button, a, input, textarea, select'));
+
+// decode() also rejects for passing reasons (a dropped request, a tab in the background), so an image
+// only counts as broken once a plain load has failed as well, after a short pause
+const preloadImage = (url: string): Promise<void> => {
+  const image = new window.Image();
+  image.src = url;
+  return image.decode().catch(() => new Promise<void>((resolve, reject) => {
+    setTimeout(() => {
+      const retry = new window.Image();
+      retry.onload = () => resolve();
+      retry.onerror = () => reject(new Error(`Image failed to load: ${url}`));
+      retry.src = url;
+    }, IMAGE_RETRY_DELAY_MS);
+  }));
+};
+
+const startSwipeSession = (): SwipeSession => ({
+  id: crypto.randomUUID(),
+  startedAt: Date.now(),
+  endedAt: null,
+  swipes: [],
+});
+
+// Folds a session's swipes into the user's style like ratios, as the database will once they sync
+const applySessionToRatios = (ratios: StyleLikeRatioItem[], swipes: SessionSwipe[]): StyleLikeRatioItem[] => {
+  const byStyle = new Map(ratios.map(ratio => [ratio.styleName, { ...ratio }]));
+  swipes.forEach(({ card, direction }) => {
+    if (!card.style_name) return;
+    const ratio = byStyle.get(card.style_name)
+      ?? { styleName: card.style_name, totalSeenInStyle: 0, totalLikedInStyle: 0, likeRatio: 0 };
+    ratio.totalSeenInStyle += 1;
+    if (direction !== 'left') ratio.totalLikedInStyle += 1;
+    ratio.likeRatio = (ratio.totalLikedInStyle / ratio.totalSeenInStyle) * 100;
+    byStyle.set(card.style_name, ratio);
+  });
+  return Array.from(byStyle.values());
+};
+
+// The style filter lives in the URL as a comma-separated list, e.g. ?styles=Brutalist,Art%20Deco
+const parseStyleFilter = (value: string | null): string[] =>
+  value ? Array.from(new Set(value.split(',').map(style => style.trim()).filter(Boolean))).sort() : [];
+
+
 // -----------------------------------------------------------------------------
 // Main Component
 // -----------------------------------------------------------------------------
+// useSearchParams needs a Suspense boundary so the page can still be prerendered
 export default function SwipePage() {
+  return (
+    <Suspense fallback={null}>
+      <SwipeDeck />
+    </Suspense>
+  );
+}
+
+function SwipeDeck() {
   const { session, supabase, isLoading: isLoadingAuth } = useAuth();
   const router = useRouter();
+  const searchParams = useSearchParams();
 
   const [cards, setCards] = useState<ImageCardData[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [outOfCards, setOutOfCards] = useState(false);
+  // Filter keys whose deck has run dry; '' is the unfiltered deck
+  const [exhaustedFilters, setExhaustedFilters] = useState<string[]>([]);
+  const [availableStyles, setAvailableStyles] = useState<string[]>([]);
+  const [readyImageIds, setReadyImageIds] = useState<Set<number>>(new Set());
+  const [announcement, setAnnouncement] = useState('');
+  const [swipeSession, setSwipeSession] = useState<SwipeSession>(startSwipeSession);
+  const [recapSession, setRecapSession] = useState<SwipeSession | null>(null);
+  // Style ratios as of the start of the current session; null if they couldn't be loaded
+  const [baselineRatios, setBaselineRatios] = useState<StyleLikeRatioItem[] | null>(null);
+  const [preferredStyles, setPreferredStyles] = useState<string[]>([]);
+  // The first batch waits for taste signals so it can be ranked; set even if they fail to load
+  const [areTasteSignalsLoaded, setAreTasteSignalsLoaded] = useState(false);
+  const [swipeHistory, setSwipeHistory] = useState<UndoableSwipe[]>([]);
+  // restoreId gives each undo a fresh card key, so the fly-in plays even if the card never left the stack
+  const [restoredCard, setRestoredCard] = useState<(SwipeHistoryEntry & { restoreId: number }) | null>(null);
+  const [isUndoing, setIsUndoing] = useState(false);
+  const [pendingSwipeCount, setPendingSwipeCount] = useState(0);
+  const [isDetailOpen, setIsDetailOpen] = useState(false);
+  // The most recently liked card, offered for saving to a board
+  const [boardPromptCard, setBoardPromptCard] = useState<ImageCardData | null>(null);
+  const [isBoardPickerOpen, setIsBoardPickerOpen] = useState(false);
 
   const currentlyProcessingSwipe = useRef(new Set<number>());
   const lastKeyPressTimeRef = useRef(0);
   const isFetchingRef = useRef(false);
   const activeCardRef = useRef<CardApi | null>(null);
+  const isUndoingRef = useRef(false);
+  const swipeSessionRef = useRef(swipeSession);
+  // Ended sessions that undo may still correct, and every session that already has a row
+  const endedSessionsRef = useRef(new Map<string, SwipeSession>());
+  const savedSessionIdsRef = useRef(new Set<string>());
+  const retryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const fetchRequestIdRef = useRef(0);
+  const preloadStartedRef = useRef(new Set<number>());
+  // Images that failed to load this session; they stay unseen server-side, so keep them out of the deck
+  const brokenImageIdsRef = useRef(new Set<number>());
+  // Ranked candidates not dealt yet; used up before the database is asked for a fresh pool
+  const rankedReserveRef = useRef<ImageCardData[]>([]);
+  // Verdict to prefix the next "now showing" announcement with
+  const pendingAnnouncementRef = useRef('');
+
+  const styleParam = searchParams.get(STYLE_FILTER_PARAM);
+  const selectedStyles = useMemo(() => parseStyleFilter(styleParam), [styleParam]);
+  const filterKey = selectedStyles.join('|');
+  const outOfCards = exhaustedFilters.includes(filterKey);
+  const deckOrder = session?.user?.id ? getDeckOrderForUser(session.user.id) : 'ranked';
+
+  const setFilterExhausted = useCallback((key: string, exhausted: boolean) => {
+    setExhaustedFilters(prev => {
+      if (exhausted) return prev.includes(key) ? prev : [...prev, key];
+      return prev.filter(existingKey => existingKey !== key);
+    });
+  }, []);
 
   // --- Nav Link Styles (copied from page.tsx for consistency) ---
   const navLinkBase = "px-4 py-2 rounded-full font-medium smooth-transition text-sm shadow-sm hover:shadow-md";
   const navLinkSecondary = `${navLinkBase} bg-white text-[rgb(var(--primary-text-soft-rgb))] border border-[rgba(var(--primary-light-rgb),0.5)] hover:bg-[rgba(var(--primary-light-rgb),0.2)]`;
   const navLinkPrimary = `${navLinkBase} bg-[rgb(var(--primary-rgb))] text-white hover:bg-[rgb(var(--primary-hover-rgb))]`;
+  const swipeButtonClasses = "rounded-full flex items-center justify-center shadow-lg hover:scale-110 motion-reduce:hover:scale-100 transition-transform disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus-visible:ring-4 focus-visible:ring-offset-2 focus-visible:ring-pink-300";
 
 
   useEffect(() => {
@@ -83,40 +295,116 @@ export default function SwipePage() {
     await supabase.auth.signOut();
   };
 
+  useEffect(() => {
+    if (!supabase) return;
+    const fetchStyles = async () => {
+      const { data, error: stylesError } = await supabase.from('styles').select('name').order('name', { ascending: true });
+      if (stylesError) {
+        console.error('Failed to load styles for the filter:', stylesError);
+        return;
+      }
+      setAvailableStyles((data || []).map((style: { name: string }) => style.name));
+    };
+    fetchStyles();
+  }, [supabase]);
+
   const fetchImages = useCallback(async (count = FETCH_COUNT) => {
-    if (isFetchingRef.current || outOfCards || !session?.user?.id || !supabase) {
+    if (isFetchingRef.current || outOfCards || !areTasteSignalsLoaded || !session?.user?.id || !supabase) {
         return;
     }
+    const appendCards = (newCards: ImageCardData[]) => setCards(prev => {
+      const existingIds = new Set(prev.map(card => card.id));
+      return [...prev, ...newCards.filter(card => !existingIds.has(card.id))];
+    });
+    const dealFromReserve = () => {
+      const queuedIds = getQueuedImageIds(session.user.id);
+      const available = rankedReserveRef.current.filter(card => !queuedIds.has(card.id) && !brokenImageIdsRef.current.has(card.id));
+      rankedReserveRef.current = available.slice(count);
+      appendCards(available.slice(0, count));
+      return available.length > 0;
+    };
+    if (deckOrder === 'ranked' && dealFromReserve()) return;
+
+    const requestId = ++fetchRequestIdRef.current;
     isFetchingRef.current = true;
     setIsLoading(true);
     setError(null);
     try {
       const { data, error: rpcError } = await supabase.rpc(
         'get_unseen_images',
-        { user_id_param: session.user.id, result_limit: count, }
+        {
+          user_id_param: session.user.id,
+          result_limit: deckOrder === 'ranked' ? RANKING_POOL_SIZE : count,
+          style_names_param: selectedStyles.length > 0 ? selectedStyles : null,
+        }
       );
+      // The filter changed while this request was in flight
+      if (requestId !== fetchRequestIdRef.current) return;
       if (rpcError) throw rpcError;
-      const newCards = (data || []) as ImageCardData[]; // Type assertion
-      if (newCards.length > 0) {
-        setCards(prev => {
-          const existingIds = new Set(prev.map(card => card.id));
-          const uniqueNewCards = newCards.filter(card => !existingIds.has(card.id));
-          return [...prev, ...uniqueNewCards];
-        });
-        setOutOfCards(false);
+      // Swipes still waiting in the offline queue are not in the database yet, so skip them here
+      const queuedIds = getQueuedImageIds(session.user.id);
+      const unseenCards = ((data || []) as ImageCardData[]) // Type assertion
+        .filter(card => !queuedIds.has(card.id) && !brokenImageIdsRef.current.has(card.id));
+      // The whole pool is ranked and dealt a few cards at a time, behind the cards already on screen
+      if (deckOrder === 'ranked') {
+        rankedReserveRef.current = rankDeck(
+          unseenCards,
+          { styleRatios: baselineRatios || [], preferredStyles },
+          { explorationShare: getExplorationShare() }
+        );
+      }
+      if (unseenCards.length > 0) {
+        if (deckOrder === 'ranked') dealFromReserve();
+        else appendCards(unseenCards);
+        setFilterExhausted(filterKey, false);
       } else {
         setCards(prev => {
-            if (prev.length === 0) setOutOfCards(true);
+            if (prev.length === 0) setFilterExhausted(filterKey, true);
             return prev;
         });
       }
     } catch (err: any) { 
       setError(err.message || 'Failed to fetch images.');
     } finally {
-      setIsLoading(false);
-      isFetchingRef.current = false;
+      if (requestId === fetchRequestIdRef.current) {
+        setIsLoading(false);
+        isFetchingRef.current = false;
+      }
     }
-  }, [outOfCards, session, supabase]);
+  }, [outOfCards, areTasteSignalsLoaded, session, supabase, selectedStyles, filterKey, setFilterExhausted, deckOrder, baselineRatios, preferredStyles]);
+
+
+  // Start a fresh deck whenever the style filter changes
+  const previousFilterKeyRef = useRef(filterKey);
+  useEffect(() => {
+    if (previousFilterKeyRef.current === filterKey) return;
+    previousFilterKeyRef.current = filterKey;
+    fetchRequestIdRef.current++; // Drop results from any fetch for the old filter
+    isFetchingRef.current = false;
+    setIsLoading(false);
+    setError(null);
+    rankedReserveRef.current = [];
+    setCards([]);
+  }, [filterKey]);
+
+  const updateStyleFilter = (styles: string[]) => {
+    const params = new URLSearchParams(searchParams.toString());
+    if (styles.length > 0) {
+      params.set(STYLE_FILTER_PARAM, [...styles].sort().join(','));
+    } else {
+      params.delete(STYLE_FILTER_PARAM);
+    }
+    const query = params.toString();
+    router.replace(query ? `/swipe?${query}` : '/swipe', { scroll: false });
+  };
+
+  const toggleStyleFilter = (style: string) => {
+    updateStyleFilter(
+      selectedStyles.includes(style)
+        ? selectedStyles.filter(selected => selected !== style)
+        : [...selectedStyles, style]
+    );
+  };
 
 
   useEffect(() => {
@@ -133,26 +421,118 @@ export default function SwipePage() {
   }, [cards.length, outOfCards, fetchImages]);
 
 
+  // Sends queued swipes and schedules the next retry while any remain
+  const syncPendingSwipes = useCallback(async () => {
+    if (!session?.user?.id || !supabase) return;
+    if (retryTimerRef.current) {
+      clearTimeout(retryTimerRef.current);
+      retryTimerRef.current = null;
+    }
+    const remaining = await flushSwipeQueue(supabase, session.user.id);
+    setPendingSwipeCount(remaining);
+    const retryDelay = getNextRetryDelay(session.user.id);
+    // While offline the 'online' listener takes over instead of polling
+    if (retryDelay !== null && navigator.onLine && !retryTimerRef.current) {
+      retryTimerRef.current = setTimeout(() => {
+        retryTimerRef.current = null;
+        syncPendingSwipes();
+      }, Math.max(retryDelay, 1000));
+    }
+  }, [session, supabase]);
+
+
+  useEffect(() => {
+    if (!session?.user?.id) return;
+    setPendingSwipeCount(getPendingSwipeCount(session.user.id));
+    syncPendingSwipes();
+
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'visible') syncPendingSwipes();
+    };
+    window.addEventListener('online', syncPendingSwipes);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => {
+      window.removeEventListener('online', syncPendingSwipes);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      if (retryTimerRef.current) {
+        clearTimeout(retryTimerRef.current);
+        retryTimerRef.current = null;
+      }
+    };
+  }, [session, syncPendingSwipes]);
+
+
+  // Drop a card whose image can't be loaded instead of letting it be swiped blind, and tell us about it
+  const handleBrokenImage = useCallback(async (card: ImageCardData) => {
+    if (brokenImageIdsRef.current.has(card.id)) return;
+    brokenImageIdsRef.current.add(card.id);
+    console.warn(`[Image Load Error] ID: ${card.id}, path: ${card.storage_path}. Skipping card.`);
+    setCards(prev => prev.filter(existing => existing.id !== card.id));
+    if (!session?.user?.id || !supabase) return;
+    const { error: reportError } = await supabase.from('broken_image_reports').insert({
+      user_id: session.user.id,
+      image_id: card.id,
+      storage_path: card.storage_path,
+    });
+    if (reportError) console.error(`Failed to report broken image ${card.id}:`, reportError);
+  }, [session, supabase]);
+
+
+  // Decode the next few images ahead of time so cards never pop in late
+  useEffect(() => {
+    if (!supabase) return;
+    cards.slice(0, FETCH_COUNT).forEach(card => {
+      if (preloadStartedRef.current.has(card.id)) return;
+      preloadStartedRef.current.add(card.id);
+      const url = getHouseImageUrl(supabase, card.storage_path);
+      if (!url) {
+        handleBrokenImage(card);
+        return;
+      }
+      preloadImage(url)
+        .then(() => setReadyImageIds(prev => new Set(prev).add(card.id)))
+        .catch(() => {
+          // Offline says nothing about the image itself; try it again the next time the deck changes
+          if (!navigator.onLine) {
+            preloadStartedRef.current.delete(card.id);
+            return;
+          }
+          handleBrokenImage(card);
+        });
+    });
+  }, [cards, supabase, handleBrokenImage]);
+
+
   const completeSwipe = useCallback(
-    async (imageId: number, direction: 'left' | 'right', durationMs: number | null) => { // MODIFIED: Added durationMs
+    async (card: ImageCardData, direction: SwipeDirection, durationMs: number | null, telemetry: SwipeTelemetry) => { // MODIFIED: Added durationMs
+      const imageId = card.id;
       if (!session?.user?.id || !supabase || currentlyProcessingSwipe.current.has(imageId)) {
         return;
       }
       currentlyProcessingSwipe.current.add(imageId);
       try {
-        const { error: swipeError } = await supabase.from('swipes').insert({
+        // Persist locally first so the swipe survives a flaky connection or a closed tab
+        enqueueSwipe({
           user_id: session.user.id,
           image_id: imageId,
-          direction: direction === 'right',
+          direction: direction !== 'left',
+          is_super_like: direction === 'up',
           time_spent_on_card_ms: durationMs, // ADDED: time_spent_on_card_ms
+          deck_order: deckOrder,
+          ...telemetry,
         });
-        if (swipeError && swipeError.code !== '23505') { // 23505 is unique violation, might happen with rapid clicks, can be ignored
-            console.warn(`Swipe recording potentially failed or was a duplicate: `, swipeError);
-            // Depending on strictness, you might throw or just log. For now, log and continue.
-            // If it's NOT a unique violation, then it's a more serious error.
-            if (swipeError.code !== '23505') throw swipeError;
-        }
-        
+        setPendingSwipeCount(getPendingSwipeCount(session.user.id));
+
+        pendingAnnouncementRef.current = VERDICT_ANNOUNCEMENTS[direction];
+
+        // Remember the swipe so it can be rewound (bounded per session)
+        setSwipeHistory(history => [...history, { card, direction, sessionId: swipeSessionRef.current.id }].slice(-MAX_UNDO_STEPS));
+        setSwipeSession(prev => ({ ...prev, swipes: [...prev.swipes, { card, direction, durationMs }] }));
+        // The reserve may still hold a card that was already on screen when the pool was fetched
+        rankedReserveRef.current = rankedReserveRef.current.filter(reserved => reserved.id !== imageId);
+        setBoardPromptCard(direction === 'left' ? null : card);
+        setIsBoardPickerOpen(false);
+
         // Optimistically remove card from UI
         setCards(prev => {
             const cardIndex = prev.findIndex(card => card.id === imageId);
@@ -169,35 +549,245 @@ export default function SwipePage() {
             return prev; // No change if card not found
         });
 
+        await syncPendingSwipes();
       } catch (err) {
         console.error(`[Swipe Error] ID: ${imageId}, Duration: ${durationMs}ms`, err);
-        // Optionally set an error state here to inform the user if a swipe fails to record
-        // For now, we let the card be removed optimistically, but log the error.
       } finally {
         currentlyProcessingSwipe.current.delete(imageId);
       }
     },
-    [session, supabase]
+    [session, supabase, syncPendingSwipes, deckOrder]
   );
 
 
+  // Keyed on the user rather than the session object so token refreshes don't end the open session below
+  const sessionUserId = session?.user?.id;
+  const saveSwipeSession = useCallback(async (sessionToSave: SwipeSession) => {
+    if (!sessionUserId || !supabase) return;
+    savedSessionIdsRef.current.add(sessionToSave.id);
+    const { error: sessionError } = await supabase.from('swipe_sessions').upsert({
+      id: sessionToSave.id,
+      user_id: sessionUserId,
+      started_at: new Date(sessionToSave.startedAt).toISOString(),
+      ended_at: sessionToSave.endedAt ? new Date(sessionToSave.endedAt).toISOString() : null,
+      cards_seen: sessionToSave.swipes.length,
+      likes: sessionToSave.swipes.filter(swipe => swipe.direction !== 'left').length,
+    });
+    if (sessionError) console.error(`Failed to save swipe session ${sessionToSave.id}:`, sessionError);
+  }, [sessionUserId, supabase]);
+
+  // Keeps the open session's row current after every swipe and undo; empty visits never get a row
+  useEffect(() => {
+    swipeSessionRef.current = swipeSession;
+    if (swipeSession.swipes.length === 0 && !savedSessionIdsRef.current.has(swipeSession.id)) return;
+    const timer = setTimeout(() => saveSwipeSession(swipeSession), SESSION_SAVE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [swipeSession, saveSwipeSession]);
+
+  // Closing the tab or leaving the page ends the open session; a page restored from the back/forward cache starts a new one
+  useEffect(() => {
+    const closeOpenSession = () => {
+      const openSession = swipeSessionRef.current;
+      if (openSession.swipes.length === 0) return;
+      const ended = { ...openSession, endedAt: Date.now() };
+      endedSessionsRef.current.set(ended.id, ended);
+      saveSwipeSession(ended);
+      const next = startSwipeSession();
+      swipeSessionRef.current = next;
+      setSwipeSession(next);
+    };
+    window.addEventListener('pagehide', closeOpenSession);
+    return () => {
+      window.removeEventListener('pagehide', closeOpenSession);
+      closeOpenSession();
+    };
+  }, [saveSwipeSession]);
+
+  const undoLastSwipe = useCallback(async () => {
+    const lastEntry = swipeHistory[swipeHistory.length - 1];
+    if (!lastEntry || !session?.user?.id || !supabase || isUndoingRef.current) {
+      return;
+    }
+    isUndoingRef.current = true;
+    setIsUndoing(true);
+    setError(null);
+    try {
+      // An unsynced swipe only needs to leave the queue; a synced one is deleted from the table
+      const wasQueued = removeQueuedSwipe(session.user.id, lastEntry.card.id);
+      setPendingSwipeCount(getPendingSwipeCount(session.user.id));
+      if (!wasQueued) {
+        const { error: deleteError } = await supabase
+          .from('swipes')
+          .delete()
+          .eq('user_id', session.user.id)
+          .eq('image_id', lastEntry.card.id);
+        if (deleteError) throw deleteError;
+      }
+      // An undone like also leaves any boards it was saved to from the detail sheet or board picker
+      if (lastEntry.direction !== 'left') await removeImageFromAllBoards(supabase, session.user.id, lastEntry.card.id);
+
+      setSwipeHistory(history => history.slice(0, -1));
+      const dropSwipe = (target: SwipeSession): SwipeSession => {
+        const index = target.swipes.map(swipe => swipe.card.id).lastIndexOf(lastEntry.card.id);
+        return index > -1 ? { ...target, swipes: target.swipes.filter((_, i) => i !== index) } : target;
+      };
+      const endedSession = endedSessionsRef.current.get(lastEntry.sessionId);
+      if (endedSession) {
+        // The swipe belonged to a session that already ended, so its row is corrected directly
+        const corrected = dropSwipe(endedSession);
+        endedSessionsRef.current.set(corrected.id, corrected);
+        saveSwipeSession(corrected);
+      } else {
+        setSwipeSession(prev => (prev.id === lastEntry.sessionId ? dropSwipe(prev) : prev));
+      }
+      setRestoredCard(prev => ({ card: lastEntry.card, direction: lastEntry.direction, restoreId: (prev?.restoreId ?? 0) + 1 }));
+      setBoardPromptCard(prev => (prev?.id === lastEntry.card.id ? null : prev));
+      setIsBoardPickerOpen(false);
+      pendingAnnouncementRef.current = 'Swipe undone.';
+      // Put the card back on top of the stack, dropping any copy a refetch may have added
+      setCards(prev => [lastEntry.card, ...prev.filter(card => card.id !== lastEntry.card.id)]);
+      setFilterExhausted(filterKey, false);
+    } catch (err) {
+      console.error(`[Undo Error] ID: ${lastEntry.card.id}`, err);
+      setError((err as Error).message || 'Failed to undo the last swipe.');
+    } finally {
+      isUndoingRef.current = false;
+      setIsUndoing(false);
+    }
+  }, [swipeHistory, session, supabase, filterKey, setFilterExhausted, saveSwipeSession]);
+
+
   useEffect(() => {
     const onKeyDown = (e: KeyboardEvent) => {
       const now = Date.now();
       if (now - lastKeyPressTimeRef.current < KEY_COOLDOWN_MS) return;
-      if (isLoadingAuth || cards.length === 0 || !activeCardRef.current) return;
+      if (isLoadingAuth || recapSession) return;
+      // Swipe shortcuts are off while the board picker is open so typing a board name is safe
+      if (isBoardPickerOpen) {
+        if (e.key === 'Escape') setIsBoardPickerOpen(false);
+        return;
+      }
+      if (isDetailOpen) {
+        // Only close keys work while the detail sheet covers the card; Space on a focused button still clicks it
+        if (e.key === 'Escape' || (e.key === ' ' && !isInteractiveTarget(e.target))) {
+          e.preventDefault();
+          lastKeyPressTimeRef.current = now;
+          setIsDetailOpen(false);
+        }
+        return;
+      }
+      if (e.key === 'Backspace') {
+        // Leave Backspace alone while the user is typing somewhere
+        const target = e.target as HTMLElement | null;
+        if (target?.isContentEditable || target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement) return;
+        e.preventDefault();
+        lastKeyPressTimeRef.current = now;
+        undoLastSwipe();
+        return;
+      }
+      if (cards.length === 0 || !activeCardRef.current) return;
+      if (!['ArrowLeft', 'ArrowRight', 'ArrowUp', ' '].includes(e.key)) return;
+      if (e.key === ' ' && isInteractiveTarget(e.target)) return;
       lastKeyPressTimeRef.current = now;
-      if (e.key === 'ArrowLeft') activeCardRef.current.triggerSwipe('left');
-      if (e.key === 'ArrowRight') activeCardRef.current.triggerSwipe('right');
+      if (e.key === ' ') {
+        e.preventDefault(); // Don't scroll the page
+        setIsDetailOpen(true);
+      }
+      if (e.key === 'ArrowLeft') activeCardRef.current.triggerSwipe('left', 'keyboard');
+      if (e.key === 'ArrowRight') activeCardRef.current.triggerSwipe('right', 'keyboard');
+      if (e.key === 'ArrowUp') {
+        e.preventDefault(); // Don't scroll the page
+        activeCardRef.current.triggerSwipe('up', 'keyboard');
+      }
     };
     window.addEventListener('keydown', onKeyDown);
     return () => window.removeEventListener('keydown', onKeyDown);
-  }, [isLoadingAuth, cards.length]); 
+  }, [isLoadingAuth, cards.length, undoLastSwipe, isDetailOpen, recapSession, isBoardPickerOpen]);
+
+  useEffect(() => {
+    if (!boardPromptCard || isBoardPickerOpen) return;
+    const timer = setTimeout(() => setBoardPromptCard(null), BOARD_PROMPT_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [boardPromptCard, isBoardPickerOpen]);
+
+  // The sheet always describes the top card, so close it whenever that card changes
+  const activeCardId = cards[0]?.id;
+  useEffect(() => {
+    setIsDetailOpen(false);
+  }, [activeCardId]);
+
+  // Announce the verdict and whichever building is now on top; cards[0] keeps its identity until the top card changes
+  const activeCard = cards[0];
+  useEffect(() => {
+    const verdict = pendingAnnouncementRef.current;
+    pendingAnnouncementRef.current = '';
+    if (activeCard) {
+      setAnnouncement(`${verdict} Now showing: ${describeCard(activeCard)}.`.trim());
+    } else if (verdict) {
+      setAnnouncement(verdict);
+    }
+  }, [activeCard]);
+
+  useEffect(() => {
+    if (outOfCards && cards.length === 0) {
+      setAnnouncement(prev => `${prev} No more buildings to swipe${selectedStyles.length > 0 ? ' in this filter' : ''}.`.trim());
+    }
+  }, [outOfCards, cards.length, selectedStyles.length]);
+
+
+  // Style ratios and stated preferences: the deck ranking inputs, and the recap's "how your taste shifted" baseline
+  useEffect(() => {
+    if (!session?.user?.id || !supabase) return;
+    const userId = session.user.id;
+    const fetchTasteSignals = async () => {
+      const [summaryResult, profileResult] = await Promise.all([
+        supabase.rpc('get_user_activity_summary', { user_id_param: userId }),
+        supabase.from('profiles').select('architectural_preferences').eq('id', userId).maybeSingle(),
+      ]);
+      if (summaryResult.error) {
+        console.error('Failed to load style ratios for ranking and the session recap:', summaryResult.error);
+      } else {
+        setBaselineRatios((summaryResult.data?.style_like_ratios || []) as StyleLikeRatioItem[]);
+      }
+      if (profileResult.error) {
+        console.error('Failed to load style preferences for ranking:', profileResult.error);
+      } else {
+        setPreferredStyles(profileResult.data?.architectural_preferences || []);
+      }
+      setAreTasteSignalsLoaded(true);
+    };
+    fetchTasteSignals();
+  }, [session?.user?.id, supabase]);
+
+  const endSwipeSession = useCallback(() => {
+    if (swipeSession.swipes.length === 0) return;
+    const ended = { ...swipeSession, endedAt: Date.now() };
+    endedSessionsRef.current.set(ended.id, ended);
+    saveSwipeSession(ended);
+    setRecapSession(ended);
+    setSwipeSession(startSwipeSession());
+    setIsDetailOpen(false);
+  }, [swipeSession, saveSwipeSession]);
+
+  // Recap every SESSION_RECAP_EVERY cards, or as soon as the deck runs dry
+  useEffect(() => {
+    if (recapSession) return;
+    if (swipeSession.swipes.length >= SESSION_RECAP_EVERY || (outOfCards && cards.length === 0 && swipeSession.swipes.length > 0)) {
+      endSwipeSession();
+    }
+  }, [swipeSession.swipes.length, outOfCards, cards.length, recapSession, endSwipeSession]);
 
+  const closeRecap = () => {
+    if (recapSession && baselineRatios) {
+      setBaselineRatios(applySessionToRatios(baselineRatios, recapSession.swipes));
+    }
+    setRecapSession(null);
+  };
 
-  const handleButtonSwipe = (direction: 'left' | 'right') => {
-    if (cards.length === 0 || !activeCardRef.current) return;
-    activeCardRef.current.triggerSwipe(direction);
+
+  const handleButtonSwipe = (direction: SwipeDirection) => {
+    if (recapSession || cards.length === 0 || !activeCardRef.current) return;
+    activeCardRef.current.triggerSwipe(direction, 'button');
   };
 
 
@@ -223,7 +813,7 @@ export default function SwipePage() {
 
   return (
     <main className="min-h-screen bg-gradient-to-br from-pink-50 via-rose-50 to-fuchsia-50 text-slate-700 overflow-hidden">
-      <div className="fixed inset-0 overflow-hidden pointer-events-none z-0 opacity-80">
+      <div aria-hidden="true" className="fixed inset-0 overflow-hidden pointer-events-none z-0 opacity-80 motion-reduce:[&_*]:animate-none">
         <div className="absolute top-20 left-10 w-64 h-64 rounded-full bg-pink-200/30 blur-3xl animate-pulse-slow"></div>
         <div className="absolute bottom-20 right-10 w-96 h-96 rounded-full bg-rose-300/30 blur-3xl animate-pulse-slow animation-delay-2000"></div>
         <div className="absolute top-1/3 right-1/4 w-48 h-48 rounded-full bg-fuchsia-400/20 blur-3xl animate-pulse-slow animation-delay-4000"></div>
@@ -237,9 +827,17 @@ export default function SwipePage() {
           <div className="flex justify-between items-center py-4">
             <Link href="/" className="text-3xl font-bold text-[rgb(var(--primary-rgb))]">ArchiSwipe</Link>
             <nav className="flex space-x-3 items-center">
+              {pendingSwipeCount > 0 && (
+                <span role="status" title="Saved on this device and will sync when your connection is back" className="hidden sm:inline-flex items-center px-3 py-1 rounded-full bg-amber-100 text-amber-700 text-xs font-medium">
+                  <CloudOffIcon size={14} className="mr-1" /> {pendingSwipeCount} {pendingSwipeCount === 1 ? 'swipe' : 'swipes'} pending sync
+                </span>
+              )}
               <Link href="/profile" className={navLinkSecondary}>
                 <UsersIcon size={18} className="inline mr-1" /> Profile
               </Link>
+              <Link href="/boards" className={navLinkSecondary}>
+                <FolderHeartIcon size={18} className="inline mr-1" /> Boards
+              </Link>
               <Link href="/" className={navLinkSecondary}>
                 <HomeIconLucide size={18} className="inline mr-1" /> Home
               </Link>
@@ -249,43 +847,126 @@ export default function SwipePage() {
         </div>
       </header>
 
-      <section className="relative z-10 flex flex-col items-center justify-center pt-8 pb-28 px-4 select-none">
+      <div aria-live="polite" aria-atomic="true" className="sr-only">{announcement}</div>
+
+      <section aria-label="Swipe deck" className="relative z-10 flex flex-col items-center justify-center pt-8 pb-28 px-4 select-none">
         <h1 className="text-3xl md:text-4xl font-bold text-center mb-4 text-gray-800">Swipe Architectural Styles</h1>
+        {availableStyles.length > 0 && (
+          <div className="w-full max-w-2xl mb-5">
+            <div className="flex items-center justify-center text-sm text-gray-500 mb-2">
+              <FilterIcon size={14} className="mr-1" />
+              {selectedStyles.length > 0 ? `Only showing ${selectedStyles.length} ${selectedStyles.length === 1 ? 'style' : 'styles'}` : 'Showing all styles'}
+              {selectedStyles.length > 0 && (
+                <button onClick={() => updateStyleFilter([])} className="ml-2 text-pink-600 hover:underline">Clear</button>
+              )}
+            </div>
+            <div role="group" aria-label="Filter by style" className="flex overflow-x-auto space-x-2 pb-2 px-1">
+              {availableStyles.map(style => {
+                const isSelected = selectedStyles.includes(style);
+                return (
+                  <button
+                    key={style}
+                    onClick={() => toggleStyleFilter(style)}
+                    aria-pressed={isSelected}
+                    className={`flex-shrink-0 px-3 py-1.5 rounded-full border text-xs sm:text-sm transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-pink-400 ${isSelected ? 'border-pink-500 bg-pink-500 text-white' : 'border-gray-300 bg-white text-gray-600 hover:border-pink-400'}`}
+                  >
+                    {style}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
         <div className="relative w-[90vw] h-[70vh] max-w-[380px] max-h-[570px]">
-          {isLoading && cards.length === 0 && ( <div className="absolute inset-0 flex items-center justify-center bg-white/75 rounded-lg z-10"><p className="text-lg font-semibold">Loading images...</p></div> )}
-          {error && ( <div className="absolute inset-0 flex items-center justify-center bg-red-100 text-red-700 p-4 rounded-lg z-10">Error: {error}</div> )}
-          {outOfCards && cards.length === 0 && !isLoading && ( <div className="absolute inset-0 flex flex-col items-center justify-center bg-white rounded-lg shadow-md p-4 text-center"><p className="text-xl font-semibold text-gray-600">All Swiped!</p><p className="text-md text-gray-500 mt-2">You've viewed all available images.</p></div> )}
+          {isLoading && cards.length === 0 && ( <div role="status" className="absolute inset-0 flex items-center justify-center bg-white/75 rounded-lg z-10"><p className="text-lg font-semibold">Loading images...</p></div> )}
+          {error && ( <div role="alert" className="absolute inset-0 flex items-center justify-center bg-red-100 text-red-700 p-4 rounded-lg z-10">Error: {error}</div> )}
+          {recapSession && (
+            <SessionRecap
+              recap={recapSession}
+              baselineRatios={baselineRatios}
+              canContinue={!(outOfCards && cards.length === 0)}
+              onClose={closeRecap}
+            />
+          )}
+          {outOfCards && cards.length === 0 && !isLoading && selectedStyles.length === 0 && ( <div className="absolute inset-0 flex flex-col items-center justify-center bg-white rounded-lg shadow-md p-4 text-center"><p className="text-xl font-semibold text-gray-600">All Swiped!</p><p className="text-md text-gray-500 mt-2">You&apos;ve viewed all available images.</p></div> )}
+          {outOfCards && cards.length === 0 && !isLoading && selectedStyles.length > 0 && (
+            <div className="absolute inset-0 flex flex-col items-center justify-center bg-white rounded-lg shadow-md p-4 text-center">
+              <p className="text-xl font-semibold text-gray-600">No more {selectedStyles.join(' or ')} buildings</p>
+              <p className="text-md text-gray-500 mt-2">You&apos;ve swiped every image in this filter.</p>
+              <button onClick={() => updateStyleFilter([])} className="mt-4 px-4 py-2 rounded-full bg-pink-500 text-white text-sm font-medium hover:bg-pink-600">Swipe all styles</button>
+            </div>
+          )}
 
           {cards.slice(0, VISIBLE_CARDS).reverse().map((card, indexInReversedStack) => {
              const index = VISIBLE_CARDS - 1 - indexInReversedStack; // This calculates the card's depth in the visual stack
              const isActive = index === 0; // The card at the top of the visual stack (depth 0) is active
             return (
               <Card
-                key={card.id}
+                key={restoredCard?.card.id === card.id ? `${card.id}-restore-${restoredCard.restoreId}` : card.id}
                 ref={isActive ? activeCardRef : null}
                 cardData={card}
                 isActive={isActive}
                 visualIndex={index} // This is its depth in the stack (0 for top, 1 for next, etc.)
+                enterFrom={restoredCard?.card.id === card.id ? restoredCard.direction : undefined}
+                isPaused={isActive && (isDetailOpen || isBoardPickerOpen)}
+                onOpenDetails={isActive ? () => setIsDetailOpen(true) : undefined}
                 // MODIFIED: Pass durationMs from Card's onSwipeComplete to completeSwipe
-                onSwipeComplete={(direction, durationMs) => 
-                    isActive ? completeSwipe(card.id, direction, durationMs) : undefined
+                onSwipeComplete={(direction, durationMs, telemetry) => 
+                    isActive ? completeSwipe(card, direction, durationMs, telemetry) : undefined
                 }
                 supabase={supabase}
+                isImageReady={readyImageIds.has(card.id)}
+                onImageError={() => handleBrokenImage(card)}
               />
             );
           })}
         </div>
 
-        <div className="flex space-x-8 mt-8">
-          <button aria-label="Nope" onClick={() => handleButtonSwipe('left')} disabled={cards.length === 0} className="w-14 h-14 rounded-full bg-red-500 flex items-center justify-center shadow-lg hover:scale-110 transition-transform disabled:opacity-50 disabled:cursor-not-allowed">
-            <svg xmlns="http://www.w3.org/2000/svg" className="h-7 w-7 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+        <div role="group" aria-label="Swipe controls" className="flex space-x-6 mt-8">
+          <button aria-label="Pass" aria-keyshortcuts="ArrowLeft" title="Pass (Arrow Left)" onClick={() => handleButtonSwipe('left')} disabled={cards.length === 0 || !!recapSession} className={`w-14 h-14 bg-red-500 ${swipeButtonClasses}`}>
+            <svg aria-hidden="true" xmlns="http://www.w3.org/2000/svg" className="h-7 w-7 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+          <button aria-label="Undo last swipe" aria-keyshortcuts="Backspace" title="Undo (Backspace)" onClick={undoLastSwipe} disabled={swipeHistory.length === 0 || isUndoing || !!recapSession} className={`w-11 h-11 self-center bg-amber-600 ${swipeButtonClasses}`}>
+            <RewindIcon aria-hidden="true" size={20} className="text-white" />
+          </button>
+          <button aria-label="Super like" aria-keyshortcuts="ArrowUp" title="Super Like (Arrow Up)" onClick={() => handleButtonSwipe('up')} disabled={cards.length === 0 || !!recapSession} className={`w-12 h-12 self-center bg-sky-600 ${swipeButtonClasses}`}>
+            <svg aria-hidden="true" xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-white" fill="currentColor" viewBox="0 0 24 24"><path d="M12 2.5l2.92 5.92 6.53.95-4.72 4.6 1.11 6.5L12 17.4l-5.84 3.07 1.11-6.5-4.72-4.6 6.53-.95L12 2.5z" /></svg>
           </button>
-          <button aria-label="Like" onClick={() => handleButtonSwipe('right')} disabled={cards.length === 0} className="w-14 h-14 rounded-full bg-pink-500 flex items-center justify-center shadow-lg hover:scale-110 transition-transform disabled:opacity-50 disabled:cursor-not-allowed">
-            <svg xmlns="http://www.w3.org/2000/svg" className="h-7 w-7 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z"/></svg>
+          <button aria-label="Like" aria-keyshortcuts="ArrowRight" title="Like (Arrow Right)" onClick={() => handleButtonSwipe('right')} disabled={cards.length === 0 || !!recapSession} className={`w-14 h-14 bg-pink-500 ${swipeButtonClasses}`}>
+            <svg aria-hidden="true" xmlns="http://www.w3.org/2000/svg" className="h-7 w-7 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z"/></svg>
           </button>
         </div>
+        <div className="relative h-10 mt-4 flex items-center justify-center">
+          {boardPromptCard && !recapSession && (
+            <div className="relative">
+              <button
+                type="button"
+                onClick={() => setIsBoardPickerOpen(open => !open)}
+                aria-expanded={isBoardPickerOpen}
+                className="px-4 py-2 rounded-full bg-white border border-pink-200 text-pink-600 text-sm font-medium shadow-sm hover:bg-pink-50 flex items-center focus:outline-none focus-visible:ring-2 focus-visible:ring-pink-300"
+              >
+                <FolderPlusIcon aria-hidden="true" size={16} className="mr-1.5" />
+                {isBoardPickerOpen ? 'Done' : `Save the ${boardPromptCard.style_name || 'building'} you liked to a board`}
+              </button>
+              {isBoardPickerOpen && (
+                <div className="absolute bottom-full mb-2 left-1/2 -translate-x-1/2 z-30">
+                  <BoardPicker imageId={boardPromptCard.id} />
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+        <p className="mt-2 text-xs text-gray-600 text-center">
+          Keyboard: <kbd>←</kbd> pass, <kbd>→</kbd> like, <kbd>↑</kbd> super like, <kbd>Space</kbd> details, <kbd>Backspace</kbd> undo
+        </p>
       </section>
 
+      <AnimatePresence>
+        {isDetailOpen && cards[0] && (
+          <CardDetailSheet cardData={cards[0]} onClose={() => setIsDetailOpen(false)} />
+        )}
+      </AnimatePresence>
+
        <footer className="py-12 bg-slate-900 text-slate-400 relative z-10 mt-12">
          <div className="container mx-auto px-4 text-center">
            <div className="text-3xl font-bold text-[rgb(var(--primary-rgb))] mb-4">ArchiSwipe</div>
@@ -313,93 +994,218 @@ interface CardProps {
     isActive: boolean;
     visualIndex: number;
     // MODIFIED: onSwipeComplete now includes durationMs
-    onSwipeComplete?: (direction: 'left' | 'right', durationMs: number | null) => void;
+    onSwipeComplete?: (direction: SwipeDirection, durationMs: number | null, telemetry: SwipeTelemetry) => void;
     supabase: SupabaseClient;
+    // Set when the card is restored by an undo; it flies back in from the side it left on
+    enterFrom?: SwipeDirection;
+    // While paused (e.g. the detail sheet is open) time does not count towards time_spent_on_card_ms
+    isPaused?: boolean;
+    onOpenDetails?: () => void;
+    // Set by the deck once the image has been decoded; the card can't be swiped before then
+    isImageReady: boolean;
+    onImageError: () => void;
 }
 
 const Card = forwardRef<CardApi, CardProps>(({
-    cardData, isActive, visualIndex, onSwipeComplete, supabase,
+    cardData, isActive, visualIndex, onSwipeComplete, supabase, enterFrom, isPaused = false, onOpenDetails,
+    isImageReady, onImageError,
   }, ref) => {
-    const x = useMotionValue(0);
-    const cardOpacity = useMotionValue(1); 
+    // With reduced motion, cards fade instead of flying and springs settle instantly
+    const prefersReducedMotion = useReducedMotion();
+    const x = useMotionValue(enterFrom === 'left' ? -CARD_FLY_OUT_DISTANCE : enterFrom === 'right' ? CARD_FLY_OUT_DISTANCE : 0);
+    const cardOpacity = useMotionValue(enterFrom ? 0 : 1); 
 
     const scale = useMotionValue(isActive ? 1 : Math.max(0, 1 - (visualIndex * 0.05)));
-    const y = useMotionValue(isActive ? 0 : visualIndex * 10);
+    // The stack effect below springs y back to its resting offset, which also brings an undone super-like back down
+    const y = useMotionValue(enterFrom === 'up' ? -CARD_FLY_OUT_DISTANCE : isActive ? 0 : visualIndex * 10);
 
     const rotate = useTransform(x, [-200, 0, 200], [-25, 0, 25], { clamp: false });
     const heartOpacity = useTransform(x, [0, SWIPE_THRESHOLD * 0.3, SWIPE_THRESHOLD], [0, 0.6, 1]);
     const heartScale = useTransform(x, [0, SWIPE_THRESHOLD * 0.3, SWIPE_THRESHOLD], [0.3, 0.8, 1]);
     const xOpacity = useTransform(x, [-SWIPE_THRESHOLD, -SWIPE_THRESHOLD * 0.3, 0], [1, 0.6, 0]);
     const xCrossScale = useTransform(x, [-SWIPE_THRESHOLD, -SWIPE_THRESHOLD * 0.3, 0], [1, 0.8, 0.3]);
+    const starOpacity = useTransform(y, [-SWIPE_THRESHOLD, -SWIPE_THRESHOLD * 0.3, 0], [1, 0.6, 0]);
+    const starScale = useTransform(y, [-SWIPE_THRESHOLD, -SWIPE_THRESHOLD * 0.3, 0], [1, 0.8, 0.3]);
 
     const zIndex = VISIBLE_CARDS - visualIndex;
 
-    const rawStoragePath = decodeURIComponent(cardData.storage_path);
-    const { data: urlData } = supabase.storage.from('house-images').getPublicUrl(rawStoragePath);
-    const imgUrl = urlData?.publicUrl;
+    const imgUrl = getHouseImageUrl(supabase, cardData.storage_path);
+    const placeholderUrl = getHouseImageUrl(supabase, cardData.storage_path, PLACEHOLDER_WIDTH, PLACEHOLDER_QUALITY);
+    const [placeholderFailed, setPlaceholderFailed] = useState(false);
 
     // ADDED: Ref to store the start time when the card becomes active
     const startTimeRef = useRef<number | null>(null);
 
     // ADDED: Effect to record start time when card becomes active
     useEffect(() => {
-      if (isActive && startTimeRef.current === null) {
+      // Dwell time only starts once there is actually something to look at
+      if (isActive && isImageReady && startTimeRef.current === null) {
         startTimeRef.current = Date.now();
       }
       // If the card becomes inactive and wasn't swiped (e.g. stack reorder, though not current logic),
       // you might want to clear startTimeRef.current here.
       // For now, it's set once when it becomes active.
-    }, [isActive]);
+    }, [isActive, isImageReady]);
+
+    // Shift the start time forward by however long the card was paused
+    const pausedAtRef = useRef<number | null>(null);
+    useEffect(() => {
+      if (isPaused) {
+        if (startTimeRef.current !== null && pausedAtRef.current === null) {
+          pausedAtRef.current = Date.now();
+        }
+      } else if (pausedAtRef.current !== null) {
+        if (startTimeRef.current !== null) {
+          startTimeRef.current += Date.now() - pausedAtRef.current;
+        }
+        pausedAtRef.current = null;
+      }
+    }, [isPaused]);
+
+    // Visible-only dwell clock: runs while this card is on top, loaded, uncovered and the tab is visible
+    const visibleMsRef = useRef(0);
+    const visibleSinceRef = useRef<number | null>(null);
+    const syncVisibleClock = useCallback((shouldRun: boolean) => {
+      const now = Date.now();
+      if (visibleSinceRef.current !== null) {
+        visibleMsRef.current += now - visibleSinceRef.current;
+        visibleSinceRef.current = null;
+      }
+      if (shouldRun) visibleSinceRef.current = now;
+    }, []);
+
+    useEffect(() => {
+      const update = () => syncVisibleClock(isActive && isImageReady && !isPaused && document.visibilityState === 'visible');
+      update();
+      document.addEventListener('visibilitychange', update);
+      return () => document.removeEventListener('visibilitychange', update);
+    }, [isActive, isImageReady, isPaused, syncVisibleClock]);
+
+    // Drag telemetry, accumulated over every drag attempt on this card
+    const peakVelocityRef = useRef<number | null>(null);
+    const directionReversalsRef = useRef(0);
+    const lastDragDirectionRef = useRef<-1 | 0 | 1>(0);
+    const dragTravelSinceTurnRef = useRef(0);
+
+    // Reverse fly-in for a card brought back by undo; a restored card is always mounted fresh with enterFrom set
+    useEffect(() => {
+      if (!enterFrom) return;
+      if (prefersReducedMotion) {
+        x.set(0);
+        y.set(0);
+      } else {
+        animate(x, 0, { type: 'spring', stiffness: 300, damping: 30 });
+      }
+      animate(cardOpacity, 1, { duration: CARD_FLY_OUT_DURATION, ease: 'easeOut' });
+    }, [enterFrom, prefersReducedMotion, x, y, cardOpacity]);
 
     useEffect(() => {
         const targetScale = isActive ? 1 : Math.max(0, 1 - (visualIndex * 0.05));
         const targetY = isActive ? 0 : visualIndex * 10;
-        const transition: FramerTransition = { type: "spring", stiffness: 250, damping: 25, mass: 0.8 };
+        const transition: FramerTransition = prefersReducedMotion
+          ? { duration: 0 }
+          : { type: "spring", stiffness: 250, damping: 25, mass: 0.8 };
         animate(scale, targetScale, transition);
         animate(y, targetY, transition);
-    }, [visualIndex, isActive, scale, y]);
+    }, [visualIndex, isActive, scale, y, prefersReducedMotion]);
 
-    const triggerSwipeAnimation = useCallback((direction: 'left' | 'right') => {
-      if (!onSwipeComplete) return;
+    const triggerSwipeAnimation = useCallback((direction: SwipeDirection, inputMethod: SwipeInputMethod, dragDistancePx: number | null = null) => {
+      if (!onSwipeComplete || !isImageReady) return;
 
       // ADDED: Calculate duration
       const endTime = Date.now();
       const durationMs = startTimeRef.current ? endTime - startTimeRef.current : null;
+      syncVisibleClock(false);
+      const telemetry: SwipeTelemetry = {
+        input_method: inputMethod,
+        drag_distance_px: dragDistancePx,
+        peak_velocity_px_s: peakVelocityRef.current,
+        direction_reversals: directionReversalsRef.current,
+        visible_time_on_card_ms: startTimeRef.current ? visibleMsRef.current : null,
+      };
       // console.log(`Card ${cardData.id} swiped. Duration: ${durationMs}ms`); // For debugging
 
-      const flyToX = direction === 'left' ? -450 : 450;
-      const xAnimation = animate(x, flyToX, {
-        duration: CARD_FLY_OUT_DURATION,
-        ease: 'easeOut'
-      });
-      animate(cardOpacity, 0, {
+      const fadeOutAnimation = animate(cardOpacity, 0, {
         duration: CARD_FLY_OUT_DURATION * 0.9,
         ease: 'easeIn'
       });
+      const flyOutAnimation = prefersReducedMotion
+        ? fadeOutAnimation
+        : direction === 'up'
+          ? animate(y, -CARD_FLY_OUT_DISTANCE * 1.5, { duration: CARD_FLY_OUT_DURATION, ease: 'easeOut' })
+          : animate(x, direction === 'left' ? -CARD_FLY_OUT_DISTANCE : CARD_FLY_OUT_DISTANCE, {
+              duration: CARD_FLY_OUT_DURATION,
+              ease: 'easeOut'
+            });
 
-      xAnimation.then(() => {
+      flyOutAnimation.then(() => {
         // MODIFIED: Pass durationMs to onSwipeComplete
-        requestAnimationFrame(() => onSwipeComplete(direction, durationMs));
+        requestAnimationFrame(() => onSwipeComplete(direction, durationMs, telemetry));
       });
-    }, [onSwipeComplete, x, cardOpacity, cardData.id]); // Added cardData.id for debug logging if needed
+    }, [onSwipeComplete, isImageReady, prefersReducedMotion, syncVisibleClock, x, y, cardOpacity, cardData.id]); // Added cardData.id for debug logging if needed
 
     useImperativeHandle(ref, () => ({
         triggerSwipe: triggerSwipeAnimation
     }), [triggerSwipeAnimation]);
 
+    const handleDragStart = () => {
+      lastDragDirectionRef.current = 0;
+      dragTravelSinceTurnRef.current = 0;
+    };
+
+    const handleDrag = (_event: MouseEvent | TouchEvent | PointerEvent, info: PanInfo) => {
+      const speed = Math.hypot(info.velocity.x, info.velocity.y);
+      peakVelocityRef.current = Math.max(peakVelocityRef.current ?? 0, Math.round(speed));
+
+      if (info.delta.x === 0) return;
+      const movingDirection = info.delta.x > 0 ? 1 : -1;
+      if (movingDirection === lastDragDirectionRef.current || lastDragDirectionRef.current === 0) {
+        dragTravelSinceTurnRef.current += Math.abs(info.delta.x);
+        if (lastDragDirectionRef.current === 0) lastDragDirectionRef.current = movingDirection;
+        return;
+      }
+      // Ignore jitter: only count a turn once the previous leg covered some distance
+      if (dragTravelSinceTurnRef.current >= REVERSAL_MIN_TRAVEL_PX) {
+        directionReversalsRef.current += 1;
+      }
+      lastDragDirectionRef.current = movingDirection;
+      dragTravelSinceTurnRef.current = Math.abs(info.delta.x);
+    };
+
     const handleDragEnd = (_event: MouseEvent | TouchEvent | PointerEvent, info: PanInfo) => { 
       if (!isActive) return; 
       const { offset, velocity } = info;
-      if (Math.abs(offset.x) > SWIPE_THRESHOLD || Math.abs(velocity.x) > 200 ) {
-        triggerSwipeAnimation(offset.x > 0 ? 'right' : 'left');
+      const dragDistancePx = Math.round(Math.hypot(offset.x, offset.y));
+      const isMostlyVertical = Math.abs(offset.y) > Math.abs(offset.x);
+      if (isMostlyVertical && (offset.y < -SWIPE_THRESHOLD || velocity.y < -200)) {
+        triggerSwipeAnimation('up', 'drag', dragDistancePx);
+      } else if (!isMostlyVertical && (Math.abs(offset.x) > SWIPE_THRESHOLD || Math.abs(velocity.x) > 200)) {
+        triggerSwipeAnimation(offset.x > 0 ? 'right' : 'left', 'drag', dragDistancePx);
       } else {
-        animate(x, 0, { type: 'spring', stiffness: 300, damping: 30 });
+        const snapBack: FramerTransition = prefersReducedMotion ? { duration: 0 } : { type: 'spring', stiffness: 300, damping: 30 };
+        animate(x, 0, snapBack);
+        animate(y, 0, snapBack);
+      }
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+      if (e.key === 'Enter' && isActive && onOpenDetails) {
+        e.preventDefault();
+        onOpenDetails();
       }
     };
 
     return (
       <motion.div
-        className="absolute w-full h-full rounded-xl shadow-lg overflow-hidden cursor-grab bg-white border border-gray-200"
+        className="absolute w-full h-full rounded-xl shadow-lg overflow-hidden cursor-grab bg-white border border-gray-200 focus:outline-none focus-visible:ring-4 focus-visible:ring-pink-300"
+        // Only the top card is exposed to assistive tech; the ones behind it are decoration
+        tabIndex={isActive ? 0 : -1}
+        role={isActive ? 'group' : undefined}
+        aria-roledescription={isActive ? 'building card' : undefined}
+        aria-label={isActive ? `${describeCard(cardData)}. Press Enter for details.` : undefined}
+        aria-hidden={isActive ? undefined : true}
+        aria-busy={isActive && !isImageReady ? true : undefined}
+        onKeyDown={handleKeyDown}
         style={{
           x: isActive ? x : 0, 
           rotate: rotate,       
@@ -408,30 +1214,288 @@ const Card = forwardRef<CardApi, CardProps>(({
           scale: scale,         
           y: y,                 
         }}
-        drag={isActive ? 'x' : false}
+        drag={isActive && !isPaused && isImageReady}
         dragConstraints={{ left: 0, right: 0, top: 0, bottom: 0 }}
+        onDragStart={handleDragStart}
+        onDrag={handleDrag}
         onDragEnd={handleDragEnd}
+        // onTap only fires when the pointer didn't move far enough to start a drag
+        onTap={isActive ? onOpenDetails : undefined}
       >
         <div className="relative w-full h-full flex items-center justify-center">
-          {imgUrl ? <img src={imgUrl} alt={cardData.description || 'Architectural image'} className="block w-full h-auto max-h-full pointer-events-none" draggable="false" />
-            : <div className="w-full h-full flex items-center justify-center text-gray-400">Loading image...</div> }
+          {imgUrl && isImageReady ? <img src={imgUrl} alt={cardData.description || 'Architectural image'} onError={onImageError} className="block w-full h-auto max-h-full pointer-events-none" draggable="false" />
+            : (
+              <div className="absolute inset-0 overflow-hidden bg-gray-100">
+                {placeholderUrl && !placeholderFailed && (
+                  <img src={placeholderUrl} alt="" aria-hidden="true" onError={() => setPlaceholderFailed(true)} className="w-full h-full object-cover blur-xl scale-110 pointer-events-none" draggable="false" />
+                )}
+                <div className="absolute inset-0 bg-white/30 animate-pulse motion-reduce:animate-none" />
+              </div>
+            )}
           {/* Overlays */}
-          <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 pointer-events-none">
+          <div aria-hidden="true" className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 pointer-events-none">
             <motion.div style={{ opacity: heartOpacity, scale: heartScale, transformOrigin: 'center center' }} className="p-3 sm:p-4 bg-black/20 rounded-full flex items-center justify-center">
               <div className="w-16 h-16 sm:w-20 sm:h-20 flex items-center justify-center bg-pink-500/90 rounded-full shadow-2xl border-2 border-pink-300">
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 sm:h-10 sm:w-10 text-white" fill="currentColor" viewBox="0 0 24 24"><path d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z" /></svg>
               </div>
             </motion.div>
           </div>
-          <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 pointer-events-none">
+          <div aria-hidden="true" className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 pointer-events-none">
             <motion.div style={{ opacity: xOpacity, scale: xCrossScale, transformOrigin: 'center center' }} className="p-3 sm:p-4 bg-black/20 rounded-full flex items-center justify-center">
               <div className="w-16 h-16 sm:w-20 sm:h-20 flex items-center justify-center bg-red-500/90 rounded-full shadow-2xl border-2 border-red-300">
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 sm:h-10 sm:w-10 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={3}><path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" /></svg>
               </div>
             </motion.div>
           </div>
+          <div aria-hidden="true" className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 pointer-events-none">
+            <motion.div style={{ opacity: starOpacity, scale: starScale, transformOrigin: 'center center' }} className="p-3 sm:p-4 bg-black/20 rounded-full flex items-center justify-center">
+              <div className="w-16 h-16 sm:w-20 sm:h-20 flex items-center justify-center bg-sky-500/90 rounded-full shadow-2xl border-2 border-sky-300">
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 sm:h-10 sm:w-10 text-white" fill="currentColor" viewBox="0 0 24 24"><path d="M12 2.5l2.92 5.92 6.53.95-4.72 4.6 1.11 6.5L12 17.4l-5.84 3.07 1.11-6.5-4.72-4.6 6.53-.95L12 2.5z" /></svg>
+              </div>
+            </motion.div>
+          </div>
         </div>
       </motion.div>
     );
   });
-Card.displayName = 'Card';
\ No newline at end of file
+Card.displayName = 'Card';
+
+// -----------------------------------------------------------------------------
+// Modal dialogs
+// -----------------------------------------------------------------------------
+// Moves focus into a modal dialog and hands it back to whatever opened it on close.
+// The returned handler keeps Tab cycling inside the dialog and closes it on Escape.
+const useModalDialogKeys = (
+  dialogRef: React.RefObject<HTMLElement>,
+  initialFocusRef: React.RefObject<HTMLElement>,
+  onClose: () => void
+) => {
+  useEffect(() => {
+    const previouslyFocused = document.activeElement as HTMLElement | null;
+    initialFocusRef.current?.focus();
+    return () => previouslyFocused?.focus();
+  }, [initialFocusRef]);
+
+  return (e: React.KeyboardEvent<HTMLElement>) => {
+    if (e.key === 'Escape') {
+      // Handled here, so the page's own keyboard shortcuts don't see it too
+      e.preventDefault();
+      e.stopPropagation();
+      onClose();
+      return;
+    }
+    if (e.key !== 'Tab' || !dialogRef.current) return;
+    const focusable = dialogRef.current.querySelectorAll<HTMLElement>('button, a[href], [tabindex]:not([tabindex="-1"])');
+    if (focusable.length === 0) return;
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    if (e.shiftKey && document.activeElement === first) {
+      e.preventDefault();
+      last.focus();
+    } else if (!e.shiftKey && document.activeElement === last) {
+      e.preventDefault();
+      first.focus();
+    }
+  };
+};
+
+// -----------------------------------------------------------------------------
+// Session Recap
+// -----------------------------------------------------------------------------
+interface SessionRecapProps {
+  recap: SwipeSession;
+  baselineRatios: StyleLikeRatioItem[] | null;
+  // False when the deck ran dry, so there is nothing to continue to
+  canContinue: boolean;
+  onClose: () => void;
+}
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+const SessionRecap = ({ recap, baselineRatios, canContinue, onClose }: SessionRecapProps) => {
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const continueButtonRef = useRef<HTMLButtonElement>(null);
+  const handleKeyDown = useModalDialogKeys(dialogRef, continueButtonRef, onClose);
+
+  const likes = recap.swipes.filter(swipe => swipe.direction !== 'left').length;
+  const sessionMinutes = Math.max(1, Math.round((Date.now() - recap.startedAt) / 60000));
+
+  const likedStyles = Object.entries(
+    recap.swipes.reduce<Record<string, number>>((counts, swipe) => {
+      if (swipe.direction !== 'left' && swipe.card.style_name) {
+        counts[swipe.card.style_name] = (counts[swipe.card.style_name] || 0) + 1;
+      }
+      return counts;
+    }, {})
+  ).sort((a, b) => b[1] - a[1]);
+
+  const timedSwipes = recap.swipes
+    .filter((swipe): swipe is SessionSwipe & { durationMs: number } => swipe.durationMs !== null)
+    .sort((a, b) => a.durationMs - b.durationMs);
+  const fastest = timedSwipes[0];
+  const slowest = timedSwipes[timedSwipes.length - 1];
+
+  // Compare each style touched this session before and after folding the session in
+  const styleShifts = baselineRatios
+    ? (() => {
+        const before = new Map(baselineRatios.map(ratio => [ratio.styleName, ratio.likeRatio]));
+        const touched = new Set(recap.swipes.map(swipe => swipe.card.style_name).filter(Boolean));
+        return applySessionToRatios(baselineRatios, recap.swipes)
+          .filter(ratio => touched.has(ratio.styleName))
+          .map(ratio => ({
+            styleName: ratio.styleName,
+            before: before.get(ratio.styleName) ?? null,
+            after: ratio.likeRatio,
+          }))
+          .sort((a, b) => Math.abs(b.after - (b.before ?? 0)) - Math.abs(a.after - (a.before ?? 0)))
+          .slice(0, 5);
+      })()
+    : [];
+
+  return (
+    <div ref={dialogRef} role="dialog" aria-modal="true" aria-labelledby="session-recap-title" onKeyDown={handleKeyDown} className="absolute inset-0 z-20 bg-white rounded-xl shadow-xl border border-pink-100 p-5 overflow-y-auto">
+      <div className="flex items-center mb-1">
+        <TrophyIcon aria-hidden="true" size={22} className="text-pink-500 mr-2" />
+        <h2 id="session-recap-title" className="text-xl font-bold text-gray-800">Session recap</h2>
+      </div>
+      <p className="text-sm text-gray-500 mb-4">
+        {recap.swipes.length} buildings in about {sessionMinutes} {sessionMinutes === 1 ? 'minute' : 'minutes'}, {likes} liked ({Math.round((likes / recap.swipes.length) * 100)}%).
+      </p>
+
+      <h3 className="text-sm font-semibold text-gray-700 mb-2">Styles you liked</h3>
+      {likedStyles.length > 0 ? (
+        <div className="flex flex-wrap gap-2 mb-4">
+          {likedStyles.map(([styleName, count]) => (
+            <span key={styleName} className="px-2.5 py-1 bg-pink-100 text-pink-700 rounded-full text-xs font-semibold">
+              {styleName} × {count}
+            </span>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 italic mb-4">Nothing caught your eye this time.</p>
+      )}
+
+      {fastest && slowest && (
+        <div className="grid grid-cols-2 gap-3 mb-4">
+          <div className="bg-green-50 rounded-lg p-3">
+            <p className="text-xs text-green-700 flex items-center"><ZapIcon aria-hidden="true" size={14} className="mr-1" /> Fastest decision</p>
+            <p className="text-lg font-bold text-green-700">{formatSeconds(fastest.durationMs)}</p>
+            <p className="text-xs text-gray-600 truncate">{VERDICT_ANNOUNCEMENTS[fastest.direction]} {fastest.card.style_name || 'Building'}</p>
+          </div>
+          <div className="bg-orange-50 rounded-lg p-3">
+            <p className="text-xs text-orange-700 flex items-center"><HourglassIcon aria-hidden="true" size={14} className="mr-1" /> Slowest decision</p>
+            <p className="text-lg font-bold text-orange-700">{formatSeconds(slowest.durationMs)}</p>
+            <p className="text-xs text-gray-600 truncate">{VERDICT_ANNOUNCEMENTS[slowest.direction]} {slowest.card.style_name || 'Building'}</p>
+          </div>
+        </div>
+      )}
+
+      {styleShifts.length > 0 && (
+        <>
+          <h3 className="text-sm font-semibold text-gray-700 mb-2">How your taste shifted</h3>
+          <ul className="space-y-1.5 mb-4">
+            {styleShifts.map(shift => {
+              const change = shift.after - (shift.before ?? 0);
+              return (
+                <li key={shift.styleName} className="flex justify-between items-center text-sm">
+                  <span className="text-gray-700">{shift.styleName}</span>
+                  <span className={`flex items-center font-medium ${change >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {shift.before === null ? 'new' : `${shift.before.toFixed(0)}%`} → {shift.after.toFixed(0)}%
+                    {change >= 0
+                      ? <ArrowUpRightIcon aria-hidden="true" size={14} className="ml-1" />
+                      : <ArrowDownRightIcon aria-hidden="true" size={14} className="ml-1" />}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        </>
+      )}
+
+      <div className="flex space-x-3 mt-2">
+        {canContinue && (
+          <button ref={continueButtonRef} onClick={onClose} className="flex-1 px-4 py-2 rounded-full bg-pink-500 text-white text-sm font-medium hover:bg-pink-600 focus:outline-none focus-visible:ring-4 focus-visible:ring-pink-300">
+            Keep swiping
+          </button>
+        )}
+        <Link href="/profile" className="flex-1 px-4 py-2 rounded-full border border-pink-300 text-pink-600 text-sm font-medium text-center hover:bg-pink-50">
+          View profile
+        </Link>
+        {!canContinue && (
+          <button ref={continueButtonRef} onClick={onClose} className="flex-1 px-4 py-2 rounded-full bg-gray-100 text-gray-700 text-sm font-medium hover:bg-gray-200 focus:outline-none focus-visible:ring-4 focus-visible:ring-pink-300">
+            Close
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// -----------------------------------------------------------------------------
+// Card Detail Sheet
+// -----------------------------------------------------------------------------
+interface CardDetailSheetProps {
+  cardData: ImageCardData;
+  onClose: () => void;
+}
+
+const CardDetailSheet = ({ cardData, onClose }: CardDetailSheetProps) => {
+  const prefersReducedMotion = useReducedMotion();
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const closeButtonRef = useRef<HTMLButtonElement>(null);
+
+  const handleKeyDown = useModalDialogKeys(dialogRef, closeButtonRef, onClose);
+
+  const details = [
+    { label: 'Style', value: cardData.style_name, icon: <StyleIcon size={18} /> },
+    { label: 'Architect', value: cardData.architect, icon: <ArchitectIcon size={18} /> },
+    { label: 'Year', value: cardData.year_built?.toString() ?? null, icon: <CalendarIcon size={18} /> },
+    { label: 'Location', value: cardData.location, icon: <MapPinIcon size={18} /> },
+  ];
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-end justify-center">
+      <motion.div
+        aria-hidden="true"
+        className="absolute inset-0 bg-black/40"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+      />
+      <motion.div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="card-detail-title"
+        onKeyDown={handleKeyDown}
+        className="relative w-full max-w-lg bg-white rounded-t-3xl shadow-2xl p-6 pb-10"
+        initial={prefersReducedMotion ? { opacity: 0 } : { y: '100%' }}
+        animate={prefersReducedMotion ? { opacity: 1 } : { y: 0 }}
+        exit={prefersReducedMotion ? { opacity: 0 } : { y: '100%' }}
+        transition={prefersReducedMotion ? { duration: 0.15 } : { type: 'spring', stiffness: 300, damping: 32 }}
+      >
+        <div aria-hidden="true" className="w-12 h-1.5 bg-gray-300 rounded-full mx-auto mb-5" />
+        <button ref={closeButtonRef} onClick={onClose} aria-label="Close details" className="absolute top-4 right-4 p-2 rounded-full text-gray-500 hover:bg-gray-100 focus:outline-none focus-visible:ring-2 focus-visible:ring-pink-400">
+          <CloseIcon aria-hidden="true" size={20} />
+        </button>
+        <h2 id="card-detail-title" className="text-2xl font-bold text-gray-800 mb-4">{cardData.style_name || 'About this building'}</h2>
+        <dl className="grid grid-cols-2 gap-4 mb-5">
+          {details.map(detail => (
+            <div key={detail.label} className="flex items-start space-x-2">
+              <span aria-hidden="true" className="text-pink-500 mt-0.5">{detail.icon}</span>
+              <div>
+                <dt className="text-xs uppercase tracking-wide text-gray-400">{detail.label}</dt>
+                <dd className="text-sm font-medium text-gray-700">{detail.value || 'Unknown'}</dd>
+              </div>
+            </div>
+          ))}
+        </dl>
+        <p className="text-sm text-gray-600 leading-relaxed whitespace-pre-line">
+          {cardData.description || 'No description available for this building yet.'}
+        </p>
+        <p className="text-xs text-gray-500 mt-6 text-center">Press Space or Esc to go back to swiping</p>
+      </motion.div>
+    </div>
+  );
+};
\ No newline at end of file
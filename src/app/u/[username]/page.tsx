@@ -0,0 +1,156 @@
+// src/app/u/[username]/page.tsx
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { useAuth } from '@/app/context/AuthContext';
+import { getHouseImageUrl } from '@/app/lib/houseImages';
+import { fetchPublicProfile, PublicProfile } from '@/app/lib/publicProfile';
+import { TasteProfileReport } from '@/app/profile/TasteProfileReport';
+import {
+  Compass as CompassIcon,
+  Heart as HeartIcon,
+  Lock as LockIcon,
+  User as UserIcon,
+} from 'lucide-react';
+
+const IMAGE_WIDTH = 400;
+
+export default function PublicProfilePage() {
+  const { session, supabase, isLoading: isLoadingAuth } = useAuth();
+  const params = useParams<{ username: string }>();
+  const username = decodeURIComponent(params.username);
+
+  const [profile, setProfile] = useState<PublicProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // --- Nav Link Styles (copied from page.tsx for consistency) ---
+  const navLinkBase = "px-4 py-2 rounded-full font-medium smooth-transition text-sm shadow-sm hover:shadow-md";
+  const navLinkSecondary = `${navLinkBase} bg-white text-[rgb(var(--primary-text-soft-rgb))] border border-[rgba(var(--primary-light-rgb),0.5)] hover:bg-[rgba(var(--primary-light-rgb),0.2)]`;
+  const navLinkPrimary = `${navLinkBase} bg-[rgb(var(--primary-rgb))] text-white hover:bg-[rgb(var(--primary-hover-rgb))]`;
+
+  // Public pages don't need a session; the RPC only returns what the owner made public
+  useEffect(() => {
+    if (isLoadingAuth || !supabase) return;
+    let cancelled = false;
+    const loadProfile = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const publicProfile = await fetchPublicProfile(supabase, username);
+        if (!cancelled) setProfile(publicProfile);
+      } catch (err) {
+        if (!cancelled) setError(`Failed to load this profile: ${(err as Error).message || 'Unknown error'}`);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    loadProfile();
+    return () => {
+      cancelled = true;
+    };
+  }, [isLoadingAuth, supabase, username]);
+
+  const displayName = profile?.full_name || profile?.username || username;
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-pink-50 via-rose-50 to-fuchsia-50 text-slate-700">
+      <header className="sticky top-0 z-50 bg-white/80 backdrop-blur-md shadow-sm">
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-4">
+            <Link href="/" className="text-3xl font-bold text-[rgb(var(--primary-rgb))]">ArchiSwipe</Link>
+            <nav className="flex space-x-3 items-center">
+              {session ? (
+                <Link href="/swipe" className={navLinkSecondary}>
+                  <CompassIcon size={18} className="inline mr-1" /> Swipe
+                </Link>
+              ) : (
+                <Link href="/auth" className={navLinkPrimary}>Join ArchiSwipe</Link>
+              )}
+            </nav>
+          </div>
+        </div>
+      </header>
+
+      <section className="max-w-4xl mx-auto px-4 py-8 sm:py-12">
+        {loading ? (
+          <div className="text-center py-20">
+            <svg className="animate-spin h-10 w-10 text-pink-500 mx-auto" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+            </svg>
+          </div>
+        ) : error ? (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">{error}</div>
+        ) : !profile ? (
+          <div className="text-center bg-white rounded-3xl shadow-xl border border-pink-100 p-10">
+            <LockIcon className="h-10 w-10 text-pink-400 mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-slate-800 mb-2">@{username} isn&apos;t available</h1>
+            <p className="text-gray-500 text-sm">This profile doesn&apos;t exist or hasn&apos;t been made public.</p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-3xl shadow-xl overflow-hidden border border-pink-100">
+            <div className="h-32 sm:h-40 bg-gradient-to-r from-pink-400 to-rose-500 relative">
+              <div className="absolute -bottom-12 sm:-bottom-16 left-6 sm:left-10">
+                <div className="w-24 h-24 sm:w-32 sm:h-32 rounded-full border-4 border-white bg-pink-100 flex items-center justify-center overflow-hidden shadow-lg">
+                  {profile.avatar_url ? (
+                    <img src={profile.avatar_url} alt={`${displayName}'s avatar`} className="w-full h-full object-cover" />
+                  ) : ( <UserIcon className="h-12 w-12 sm:h-16 sm:w-16 text-pink-400" /> )}
+                </div>
+              </div>
+            </div>
+
+            <div className="pt-16 sm:pt-20 pb-8 sm:pb-10 px-6 sm:px-10">
+              <h1 className="text-2xl sm:text-3xl font-bold text-slate-800 mb-1">{displayName}</h1>
+              <p className="text-sm text-slate-500 mb-6">@{profile.username}</p>
+
+              {profile.bio && <p className="text-gray-700 mb-8 whitespace-pre-line">{profile.bio}</p>}
+
+              {profile.architectural_preferences && profile.architectural_preferences.length > 0 && (
+                <div className="mb-10">
+                  <h2 className="font-semibold text-slate-700 mb-3 text-lg">Favourite Styles</h2>
+                  <div className="flex flex-wrap gap-2">
+                    {profile.architectural_preferences.map(style => (
+                      <span key={style} className="px-3 py-1 rounded-full bg-pink-50 border border-pink-200 text-pink-700 text-sm">{style}</span>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {profile.style_like_ratios && (
+                <TasteProfileReport styleRatios={profile.style_like_ratios} ownerName={displayName} />
+              )}
+
+              {profile.liked_images && (
+                <div>
+                  <h2 className="font-semibold text-slate-700 mb-4 text-lg flex items-center">
+                    <HeartIcon size={20} className="mr-2 text-pink-600" /> Recently Liked
+                  </h2>
+                  {profile.liked_images.length > 0 ? (
+                    <ul className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+                      {profile.liked_images.map(image => {
+                        const imageUrl = getHouseImageUrl(supabase, image.storage_path, IMAGE_WIDTH);
+                        return (
+                          <li key={image.image_id} className="relative rounded-xl overflow-hidden bg-pink-50 shadow-sm border border-gray-200 aspect-square">
+                            {imageUrl && <img src={imageUrl} alt={`${image.style_name || 'Liked'} building`} loading="lazy" className="w-full h-full object-cover" />}
+                            <span className="absolute inset-x-0 bottom-0 bg-gradient-to-t from-black/70 to-transparent px-3 pt-6 pb-2 text-white text-sm font-semibold truncate">
+                              {image.style_name || 'Unknown style'}
+                            </span>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  ) : (
+                    <p className="text-gray-500 italic text-sm bg-white p-4 rounded-lg shadow-sm border">No liked buildings yet.</p>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </section>
+    </main>
+  );
+}